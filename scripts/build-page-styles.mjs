@@ -0,0 +1,138 @@
+// Compiles the Tailwind utilities used by the publish renderer into
+// supabase/functions/publish/styles.generated.ts.
+//
+// Every class-like token in renderer.ts is handed to the Tailwind compiler (unknown tokens
+// are ignored), and the output is split per class so the publish function can inline only
+// the rules a given page uses. Re-run after adding classes to the renderer:
+//
+//   npm run build:page-styles
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { compile } from 'tailwindcss'
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const publishDir = path.join(root, 'supabase/functions/publish')
+const tailwindDir = path.join(root, 'node_modules/tailwindcss')
+
+// Theme values are inlined so each rule stands alone. The border-color rule keeps the
+// pre-v4 default (gray-200) the renderer's markup was written against.
+const INPUT = `
+@import "tailwindcss/theme.css" theme(reference inline);
+@import "tailwindcss/preflight.css" layer(base);
+@import "tailwindcss/utilities.css";
+
+@layer base {
+  *, ::after, ::before, ::backdrop, ::file-selector-button {
+    border-color: --theme(--color-gray-200, currentColor);
+  }
+}
+`
+
+// Classes the renderer assembles at runtime, which a source scan can't see
+// (`grid-cols-${cols}` with cols from smartColumns()).
+const SAFELIST = ['grid-cols-1', 'grid-cols-2', 'grid-cols-3', 'grid-cols-4']
+
+async function loadStylesheet(id) {
+  const file = path.join(tailwindDir, id.replace(/^tailwindcss\//, ''))
+  return { path: file, base: path.dirname(file), content: fs.readFileSync(file, 'utf8') }
+}
+
+function minify(css) {
+  return css
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\s*\n\s*/g, '')
+    .trim()
+}
+
+/** Splits a stylesheet into its top-level statements and blocks. */
+function topLevelBlocks(css) {
+  const blocks = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < css.length; i++) {
+    const ch = css[i]
+    if (ch === '{') depth++
+    else if (ch === '}') {
+      depth--
+      if (depth === 0) {
+        blocks.push(css.slice(start, i + 1).trim())
+        start = i + 1
+      }
+    } else if (ch === ';' && depth === 0) {
+      blocks.push(css.slice(start, i + 1).trim())
+      start = i + 1
+    }
+  }
+  return blocks.filter(Boolean)
+}
+
+/** `.hover\:opacity-60 {` → `hover:opacity-60` */
+function classFromSelector(block) {
+  const selector = block.slice(0, block.indexOf('{')).trim()
+  return selector
+    .slice(1)
+    .replace(/\\([0-9a-fA-F]{1,6}) ?/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/\\(.)/g, '$1')
+}
+
+const source = fs.readFileSync(path.join(publishDir, 'renderer.ts'), 'utf8')
+const candidates = [...new Set([...SAFELIST, ...source.split(/[\s"'`${}<>=;]+/).filter(Boolean)])]
+
+const compiler = await compile(INPUT, { base: root, loadStylesheet })
+const css = minify(compiler.build(candidates))
+
+let baseCss = ''
+let propertiesSupports = ''
+const utilities = []
+const properties = {}
+const keyframes = {}
+
+for (const block of topLevelBlocks(css)) {
+  if (block.startsWith('@layer properties;')) continue
+
+  if (block.startsWith('@layer base')) {
+    baseCss += block
+  } else if (block.startsWith('@layer properties')) {
+    // Fallback initial values for browsers without @property support
+    const supports = block.match(/@supports ([^{]+)\{/)
+    if (supports) propertiesSupports = supports[1].trim()
+    for (const [, name, value] of block.matchAll(/(--tw-[\w-]+):([^;]*);/g)) {
+      properties[name] = { ...properties[name], initial: `${name}:${value.trim()};` }
+    }
+  } else if (block.startsWith('@property')) {
+    const name = block.match(/@property (--[\w-]+)/)[1]
+    properties[name] = { ...properties[name], rule: block }
+  } else if (block.startsWith('@keyframes')) {
+    keyframes[block.match(/@keyframes ([\w-]+)/)[1]] = block
+  } else if (block.startsWith('.')) {
+    utilities.push([classFromSelector(block), block])
+  }
+}
+
+const out = `// Generated by scripts/build-page-styles.mjs from renderer.ts — do not edit.
+// Run \`npm run build:page-styles\` after changing the classes the renderer emits.
+
+/** Preflight reset, in \`@layer base\`. */
+export const BASE_CSS = ${JSON.stringify(baseCss)}
+
+/** [class, rule] in Tailwind's cascade order. */
+export const UTILITIES: [string, string][] = [
+${utilities.map((u) => `  ${JSON.stringify(u)},`).join('\n')}
+]
+
+/** \`@property\` rules and their fallback initial values, keyed by custom property. */
+export const PROPERTIES: Record<string, { rule: string; initial: string }> = {
+${Object.entries(properties).map(([k, v]) => `  ${JSON.stringify(k)}: ${JSON.stringify(v)},`).join('\n')}
+}
+
+export const PROPERTIES_SUPPORTS = ${JSON.stringify(propertiesSupports)}
+
+export const KEYFRAMES: Record<string, string> = {
+${Object.entries(keyframes).map(([k, v]) => `  ${JSON.stringify(k)}: ${JSON.stringify(v)},`).join('\n')}
+}
+`
+
+fs.writeFileSync(path.join(publishDir, 'styles.generated.ts'), out)
+console.log(`styles.generated.ts: ${utilities.length} utilities, ${Object.keys(properties).length} properties`)
@@ -19,6 +19,7 @@ import OnboardingView from '@/features/onboarding/views/OnboardingView.vue'
 import HomeView from '@/views/storefront/HomeView.vue'
 import CheckoutSuccessView from '@/features/plan/views/CheckoutSuccessView.vue'
 import CheckoutCancelView from '@/features/plan/views/CheckoutCancelView.vue'
+import DownloadsView from '@/features/plan/views/DownloadsView.vue'
 
 const router = createRouter({
   history: createWebHistory(import.meta.env.BASE_URL),
@@ -89,6 +90,10 @@ const router = createRouter({
       path: '/checkout/cancel',
       component: CheckoutCancelView,
     },
+    {
+      path: '/downloads/:token',
+      component: DownloadsView,
+    },
     {
       path: '/onboarding',
       component: OnboardingLayout,
@@ -0,0 +1,79 @@
+import { ref, computed, watch } from 'vue'
+import { useLandStore } from '@/features/lands/stores/land'
+import { analyticsService } from '@/features/dashboard/services/analytics.service'
+import type { AnalyticsBreakdown, AnalyticsRange, LandAnalytics } from '@/features/dashboard/types'
+import type { ChartPoint } from '@/shared/ui/BaseChart.vue'
+
+// ─── Module-level singleton state ───
+// Shared by the dashboard card and the analytics detail so switching views doesn't refetch.
+const range = ref<AnalyticsRange>(30)
+const analytics = ref<LandAnalytics | null>(null)
+const isLoading = ref(false)
+const error = ref<string | null>(null)
+let initialized = false
+let requestId = 0
+
+function formatDay(day: string): string {
+  // `day` is a UTC date (YYYY-MM-DD) — format it without shifting into the local timezone
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString('en', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+function toShares(rows: AnalyticsBreakdown[], fallback: string): { label: string; value: number }[] {
+  const total = rows.reduce((s, r) => s + r.count, 0)
+  if (!total) return []
+  return rows.map((r) => ({ label: r.label ?? fallback, value: Math.round((r.count / total) * 100) }))
+}
+
+export function useLandAnalytics() {
+  const landStore = useLandStore()
+
+  async function load() {
+    const landId = landStore.activeLandId
+    if (!landId) return
+    const id = ++requestId
+    isLoading.value = true
+    error.value = null
+    try {
+      const data = await analyticsService.getLandAnalytics(landId, range.value)
+      if (id === requestId) analytics.value = data // ignore responses for a previous land/range
+    } catch (e) {
+      if (id === requestId) error.value = (e as Error).message
+    } finally {
+      if (id === requestId) isLoading.value = false
+    }
+  }
+
+  if (!initialized) {
+    initialized = true
+    watch([() => landStore.activeLandId, range], () => {
+      analytics.value = null
+      load()
+    }, { immediate: true })
+  }
+
+  const visitData = computed<ChartPoint[]>(() =>
+    (analytics.value?.daily ?? []).map((d) => ({ label: formatDay(d.day), value: d.views })),
+  )
+  const totalViews = computed(() => analytics.value?.total_views ?? 0)
+  const avgPerDay = computed(() => Math.round(totalViews.value / range.value))
+  const referrers = computed(() => toShares(analytics.value?.referrers ?? [], 'Direct'))
+  const countries = computed(() => toShares(analytics.value?.countries ?? [], 'Unknown'))
+  const devices = computed(() => toShares(analytics.value?.devices ?? [], 'Unknown'))
+  const topClicked = computed(() =>
+    (analytics.value?.clicks ?? []).map((c) => ({ label: c.label || c.url, url: c.url, clicks: c.count })),
+  )
+
+  return {
+    range,
+    isLoading,
+    error,
+    visitData,
+    totalViews,
+    avgPerDay,
+    referrers,
+    countries,
+    devices,
+    topClicked,
+    reload: load,
+  }
+}
@@ -0,0 +1,84 @@
+import { ref, computed, watch } from 'vue'
+import { useLandStore } from '@/features/lands/stores/land'
+import { membershipsService } from '@/features/dashboard/services/memberships.service'
+import { toMajorUnits } from '@/shared/lib/currency'
+import type { Membership } from '@/features/dashboard/types'
+import type { Collection } from '@/features/sections/types/collection'
+
+// Subscription statuses that unlock paid collections — the worker checks the same list
+const ACTIVE_STATUSES = ['active', 'trialing']
+
+// ─── Module-level singleton state ───
+// Shared by the dashboard card and the monetize detail so switching views doesn't refetch.
+const memberships = ref<Membership[]>([])
+const isLoading = ref(false)
+const error = ref<string | null>(null)
+let initialized = false
+let requestId = 0
+
+export function useLandMemberships() {
+  const landStore = useLandStore()
+
+  async function load() {
+    const landId = landStore.activeLandId
+    if (!landId) return
+    const id = ++requestId
+    isLoading.value = true
+    error.value = null
+    try {
+      const data = await membershipsService.list(landId)
+      if (id === requestId) memberships.value = data // ignore responses for a previous land
+    } catch (e) {
+      if (id === requestId) error.value = (e as Error).message
+    } finally {
+      if (id === requestId) isLoading.value = false
+    }
+  }
+
+  if (!initialized) {
+    initialized = true
+    watch(() => landStore.activeLandId, () => {
+      memberships.value = []
+      load()
+    }, { immediate: true })
+  }
+
+  const active = computed(() => memberships.value.filter((m) => ACTIVE_STATUSES.includes(m.status)))
+
+  const currency = computed(() => landStore.activeLand?.currency ?? 'usd')
+
+  // Monthly recurring revenue in major units of the land's currency; yearly plans count a twelfth.
+  // Memberships from before a currency change are left out rather than mixed in.
+  const mrr = computed(() => active.value
+    .filter((m) => m.currency === currency.value)
+    .reduce((sum, m) => sum + toMajorUnits(m.amount, m.currency) / (m.billing_period === 'yearly' ? 12 : 1), 0))
+
+  // Every paid collection on the land, with its active member count
+  const collections = computed(() => (landStore.activeLand?.sections ?? [])
+    .filter((s) => s.type === 'monetize')
+    .flatMap((s) => ((s.content as any)?.collections ?? []) as Collection[])
+    .filter((c) => (c.price ?? 0) > 0)
+    .map((c) => ({
+      id: c.id,
+      title: c.title,
+      price: c.price!,
+      billing_period: c.billing_period ?? 'monthly',
+      subscribers: active.value.filter((m) => m.collection_id === c.id).length,
+    })))
+
+  const stats = computed(() => ({
+    subscribers: active.value.length,
+    mrr: mrr.value,
+  }))
+
+  return {
+    memberships,
+    active,
+    collections,
+    currency,
+    stats,
+    isLoading,
+    error,
+    reload: load,
+  }
+}
@@ -0,0 +1,90 @@
+import { ref, computed, watch } from 'vue'
+import { useLandStore } from '@/features/lands/stores/land'
+import { ordersService } from '@/features/dashboard/services/orders.service'
+import { addToast } from '@/shared/composables/useToast'
+import type { Order } from '@/features/dashboard/types'
+
+// ─── Module-level singleton state ───
+// Shared by the dashboard card and the orders detail so switching views doesn't refetch.
+const orders = ref<Order[]>([])
+const isLoading = ref(false)
+const error = ref<string | null>(null)
+let initialized = false
+let requestId = 0
+
+export function useLandOrders() {
+  const landStore = useLandStore()
+
+  async function load() {
+    const landId = landStore.activeLandId
+    if (!landId) return
+    const id = ++requestId
+    isLoading.value = true
+    error.value = null
+    try {
+      const data = await ordersService.list(landId)
+      if (id === requestId) orders.value = data // ignore responses for a previous land
+    } catch (e) {
+      if (id === requestId) error.value = (e as Error).message
+    } finally {
+      if (id === requestId) isLoading.value = false
+    }
+  }
+
+  if (!initialized) {
+    initialized = true
+    watch(() => landStore.activeLandId, () => {
+      orders.value = []
+      load()
+    }, { immediate: true })
+  }
+
+  function replace(updated: Order) {
+    orders.value = orders.value.map((o) => (o.id === updated.id ? updated : o))
+  }
+
+  async function markShipped(orderId: string, trackingNumber: string) {
+    try {
+      replace(await ordersService.updateStatus(orderId, 'shipped', trackingNumber.trim() || null))
+      addToast('Order marked as shipped')
+    } catch (e) {
+      addToast(`Couldn't update order: ${(e as Error).message}`, 'error')
+    }
+  }
+
+  async function markDelivered(orderId: string) {
+    try {
+      replace(await ordersService.updateStatus(orderId, 'delivered'))
+      addToast('Order marked as delivered')
+    } catch (e) {
+      addToast(`Couldn't update order: ${(e as Error).message}`, 'error')
+    }
+  }
+
+  async function resendDownloads(orderId: string) {
+    try {
+      await ordersService.resendDownloads(orderId)
+      replace(await ordersService.get(orderId))
+      addToast('Download link sent')
+    } catch (e) {
+      addToast(`Couldn't resend download link: ${(e as Error).message}`, 'error')
+    }
+  }
+
+  const stats = computed(() => ({
+    new: orders.value.filter((o) => o.status === 'new').length,
+    shipped: orders.value.filter((o) => o.status === 'shipped').length,
+    delivered: orders.value.filter((o) => o.status === 'delivered').length,
+  }))
+
+  return {
+    orders,
+    stats,
+    isLoading,
+    error,
+    markShipped,
+    markDelivered,
+    resendDownloads,
+    reload: load,
+  }
+}
@@ -0,0 +1,83 @@
+import { ref, computed, watch } from 'vue'
+import { useLandStore } from '@/features/lands/stores/land'
+import { subscribersService } from '@/features/dashboard/services/subscribers.service'
+import { addToast } from '@/shared/composables/useToast'
+import type { Subscriber, WebhookDelivery } from '@/features/dashboard/types'
+
+// ─── Module-level singleton state ───
+// Shared by the dashboard card and the campaign detail so switching views doesn't refetch.
+const subscribers = ref<Subscriber[]>([])
+const deliveries = ref<WebhookDelivery[]>([]) // failed webhook deliveries
+const isLoading = ref(false)
+const error = ref<string | null>(null)
+let initialized = false
+let requestId = 0
+
+export function useLandSubscribers() {
+  const landStore = useLandStore()
+
+  async function load() {
+    const landId = landStore.activeLandId
+    if (!landId) return
+    const id = ++requestId
+    isLoading.value = true
+    error.value = null
+    try {
+      const [subscriberData, deliveryData] = await Promise.all([
+        subscribersService.list(landId),
+        subscribersService.listFailedDeliveries(landId),
+      ])
+      if (id !== requestId) return // ignore responses for a previous land
+      subscribers.value = subscriberData
+      deliveries.value = deliveryData
+    } catch (e) {
+      if (id === requestId) error.value = (e as Error).message
+    } finally {
+      if (id === requestId) isLoading.value = false
+    }
+  }
+
+  if (!initialized) {
+    initialized = true
+    watch(() => landStore.activeLandId, () => {
+      subscribers.value = []
+      deliveries.value = []
+      load()
+    }, { immediate: true })
+  }
+
+  async function replayDelivery(delivery: WebhookDelivery) {
+    try {
+      await subscribersService.replayDelivery(delivery.id)
+      deliveries.value = deliveries.value.filter((d) => d.id !== delivery.id)
+      const subscriber = subscribers.value.find((s) => s.id === delivery.subscriber_id)
+      if (subscriber) Object.assign(subscriber, { sync_status: 'synced', sync_error: null, synced_at: new Date().toISOString() })
+      addToast('Delivered')
+    } catch (e) {
+      addToast(`Delivery failed again: ${(e as Error).message}`, 'error')
+      load()
+    }
+  }
+
+  // Campaign section titles by id, for the "source" of each signup
+  const sources = computed(() => Object.fromEntries((landStore.activeLand?.sections ?? [])
+    .filter((s) => s.type === 'campaign')
+    .map((s) => [s.id, ((s.content as any)?.title as string | undefined) || 'Campaign'])))
+
+  const stats = computed(() => ({
+    total: subscribers.value.length,
+    synced: subscribers.value.filter((s) => s.sync_status === 'synced').length,
+    failed: subscribers.value.filter((s) => s.sync_status === 'failed').length,
+  }))
+
+  return {
+    subscribers,
+    deliveries,
+    sources,
+    stats,
+    isLoading,
+    error,
+    reload: load,
+    replayDelivery,
+  }
+}
@@ -0,0 +1,11 @@
+import { supabase } from '@/shared/lib/supabase'
+import type { AnalyticsRange, LandAnalytics } from '@/features/dashboard/types'
+
+export const analyticsService = {
+  /** Pageviews, referrers, countries, devices and outbound clicks recorded by the worker. */
+  async getLandAnalytics(landId: string, days: AnalyticsRange): Promise<LandAnalytics> {
+    const { data, error } = await supabase.rpc('land_analytics', { p_land_id: landId, p_days: days })
+    if (error) throw new Error(error.message)
+    return data as LandAnalytics
+  },
+}
@@ -0,0 +1,17 @@
+import { supabase } from '@/shared/lib/supabase'
+import type { Membership } from '@/features/dashboard/types'
+
+const MEMBERSHIP_COLUMNS = 'id, collection_id, collection_title, email, name, status, amount, currency, billing_period, current_period_end, created_at'
+
+export const membershipsService = {
+  /** Memberships of a land's monetize collections, newest first (lapsed ones included). */
+  async list(landId: string): Promise<Membership[]> {
+    const { data, error } = await supabase
+      .from('memberships')
+      .select(MEMBERSHIP_COLUMNS)
+      .eq('land_id', landId)
+      .order('created_at', { ascending: false })
+    if (error) throw new Error(error.message)
+    return (data ?? []) as Membership[]
+  },
+}
@@ -0,0 +1,57 @@
+import { supabase } from '@/shared/lib/supabase'
+import type { Order, OrderStatus } from '@/features/dashboard/types'
+
+const ORDER_COLUMNS = 'id, number, land_id, items, amount, fee, currency, buyer_name, buyer_email, shipping_address, status, tracking_number, shipped_at, delivered_at, created_at, downloads:order_downloads(id, title, download_count, max_downloads, expires_at)'
+
+export const ordersService = {
+  /** Orders for a land, newest first. */
+  async list(landId: string): Promise<Order[]> {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(ORDER_COLUMNS)
+      .eq('land_id', landId)
+      .order('created_at', { ascending: false })
+    if (error) throw new Error(error.message)
+    return (data ?? []) as Order[]
+  },
+
+  /**
+   * Moves an order forward. The database stamps `shipped_at` / `delivered_at`
+   * and rejects moving backwards.
+   */
+  async updateStatus(orderId: string, status: OrderStatus, trackingNumber?: string | null): Promise<Order> {
+    const updates: { status: OrderStatus; tracking_number?: string | null } = { status }
+    if (trackingNumber !== undefined) updates.tracking_number = trackingNumber
+    const { data, error } = await supabase
+      .from('orders')
+      .update(updates)
+      .eq('id', orderId)
+      .select(ORDER_COLUMNS)
+      .single()
+    if (error) throw new Error(error.message)
+    return data as Order
+  },
+
+  async get(orderId: string): Promise<Order> {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(ORDER_COLUMNS)
+      .eq('id', orderId)
+      .single()
+    if (error) throw new Error(error.message)
+    return data as Order
+  },
+
+  /** Resets the buyer's download allowance and emails them their download page again. */
+  async resendDownloads(orderId: string): Promise<void> {
+    const { error } = await supabase.functions.invoke('resend-download', { body: { orderId } })
+    if (error) {
+      let message = error.message
+      try {
+        const body = await (error as { context?: Response }).context?.json()
+        if (body?.error) message = body.error
+      } catch { /* ignore */ }
+      throw new Error(message)
+    }
+  },
+}
@@ -0,0 +1,42 @@
+import { supabase } from '@/shared/lib/supabase'
+import type { Subscriber, WebhookDelivery } from '@/features/dashboard/types'
+
+const SUBSCRIBER_COLUMNS = 'id, email, name, section_id, provider, sync_status, sync_attempts, sync_error, synced_at, created_at'
+const DELIVERY_COLUMNS = 'id, subscriber_id, url, payload, attempts, response_status, error, last_attempt_at'
+
+export const subscribersService = {
+  /** Campaign signups for a land, newest first. */
+  async list(landId: string): Promise<Subscriber[]> {
+    const { data, error } = await supabase
+      .from('subscribers')
+      .select(SUBSCRIBER_COLUMNS)
+      .eq('land_id', landId)
+      .order('created_at', { ascending: false })
+    if (error) throw new Error(error.message)
+    return (data ?? []) as Subscriber[]
+  },
+  /** Webhook deliveries still failing, most recent attempt first. */
+  async listFailedDeliveries(landId: string): Promise<WebhookDelivery[]> {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select(DELIVERY_COLUMNS)
+      .eq('land_id', landId)
+      .eq('status', 'failed')
+      .order('last_attempt_at', { ascending: false })
+    if (error) throw new Error(error.message)
+    return (data ?? []) as WebhookDelivery[]
+  },
+
+  /** Sends a failed delivery again, freshly signed. Throws with the endpoint's answer when it fails again. */
+  async replayDelivery(deliveryId: string): Promise<void> {
+    const { error } = await supabase.functions.invoke('campaign-webhook', { body: { action: 'replay', deliveryId } })
+    if (error) {
+      let message = error.message
+      try {
+        const body = await (error as { context?: Response }).context?.json()
+        if (body?.error) message = body.error
+      } catch { /* ignore */ }
+      throw new Error(message)
+    }
+  },
+}
@@ -0,0 +1,118 @@
+export type AnalyticsRange = 7 | 30 | 90
+
+export interface AnalyticsBreakdown {
+  label: string | null // null referrer = direct
+  count: number
+}
+
+interface ClickedLink {
+  label: string | null
+  url: string
+  count: number
+}
+
+/** Aggregates returned by the `land_analytics` database function. */
+export interface LandAnalytics {
+  total_views: number
+  daily: { day: string; views: number }[] // one entry per day, oldest first
+  referrers: AnalyticsBreakdown[]
+  countries: AnalyticsBreakdown[]
+  devices: AnalyticsBreakdown[]
+  clicks: ClickedLink[]
+}
+
+export type OrderStatus = 'new' | 'shipped' | 'delivered'
+
+/** Stripe address object plus the recipient name, as collected at checkout. */
+export interface ShippingAddress {
+  name: string | null
+  line1: string | null
+  line2: string | null
+  city: string | null
+  state: string | null
+  postal_code: string | null
+  country: string | null
+}
+
+/** One line of an order — a store item with the options the buyer picked. */
+interface OrderItem {
+  store_id: string | null
+  item_id: string | null
+  title: string
+  variant: string | null // e.g. "Size: M"
+  quantity: number
+  amount: number // line total, minor units
+}
+
+/** A digital file in an order and how much of the buyer's allowance is left. */
+interface OrderDownload {
+  id: string
+  title: string
+  download_count: number
+  max_downloads: number
+  expires_at: string
+}
+
+/** A store purchase recorded by the `stripe-connect-webhook` function. */
+export interface Order {
+  id: string
+  number: number
+  land_id: string
+  items: OrderItem[]
+  downloads: OrderDownload[] // digital items only
+  amount: number // minor units
+  fee: number // minor units
+  currency: string
+  buyer_name: string | null
+  buyer_email: string | null
+  shipping_address: ShippingAddress | null
+  status: OrderStatus
+  tracking_number: string | null
+  shipped_at: string | null
+  delivered_at: string | null
+  created_at: string
+}
+
+/** A paid subscription to a monetize collection, recorded by the `stripe-connect-webhook` function. */
+export interface Membership {
+  id: string
+  collection_id: string
+  collection_title: string
+  email: string
+  name: string | null
+  status: string // Stripe subscription status — 'active' and 'trialing' unlock the content
+  amount: number // per billing period, minor units
+  currency: string
+  billing_period: 'monthly' | 'yearly'
+  current_period_end: string | null
+  created_at: string
+}
+
+/** Where a subscriber stands with the land's email provider. `skipped`: no provider was connected. */
+export type SubscriberSyncStatus = 'pending' | 'synced' | 'failed' | 'skipped'
+
+/** A campaign signup, recorded by the `subscribe` function before it is forwarded to the provider. */
+export interface Subscriber {
+  id: string
+  email: string
+  name: string | null
+  section_id: string | null // campaign section the form was in
+  provider: string | null
+  sync_status: SubscriberSyncStatus
+  sync_attempts: number
+  sync_error: string | null
+  synced_at: string | null
+  created_at: string
+}
+
+/** A signup the land's webhook endpoint didn't accept, kept by the `subscribe` function for replay. */
+export interface WebhookDelivery {
+  id: string
+  subscriber_id: string
+  url: string
+  payload: { email: string; name: string | null }
+  attempts: number
+  response_status: number | null // null when the endpoint couldn't be reached
+  error: string | null
+  last_attempt_at: string
+}
@@ -0,0 +1,124 @@
+import { computed, shallowRef, watch } from 'vue'
+import { useLandStore } from '@/features/lands/stores/land'
+import { useEditorStore } from '@/features/editor/stores/editor'
+import { useThemeStore } from '@/features/theme/stores/theme'
+import { storageService, extractSectionUrls } from '@/features/integrations/services/storage.service'
+import type { Section } from '@/features/sections/types'
+import type { LandTheme } from '@/features/theme/types'
+
+// Undo/redo for the unsaved draft — the sections and theme `save()` writes. Mutations call
+// `record()` before they change anything; each entry is the draft as it was. Images and land
+// settings are saved straight away, so they aren't part of it. The history survives panel
+// switches and leaving edit mode, and starts over when the draft is saved, discarded or
+// replaced (a restored version, another land, a collaborator's save merged in).
+
+interface HistoryEntry {
+  sections: Section[]
+  theme: LandTheme | null
+}
+
+const MAX_ENTRIES = 100
+// Changes with the same key closer together than this are one step (typing, dragging a colour)
+const COALESCE_MS = 1000
+
+// ─── Singleton state ──────────────────────────────────────────────────────────
+const undoStack = shallowRef<HistoryEntry[]>([])
+const redoStack = shallowRef<HistoryEntry[]>([])
+let lastKey: string | null = null
+let lastAt = 0
+// Files of deleted sections, removed once the deletion can't be undone any more
+let pendingRemovals: string[] = []
+let initialized = false
+
+export function useEditorHistory() {
+  const landStore = useLandStore()
+  const editorStore = useEditorStore()
+  const themeStore = useThemeStore()
+
+  const canUndo = computed(() => undoStack.value.length > 0)
+  const canRedo = computed(() => redoStack.value.length > 0)
+
+  function current(): HistoryEntry | null {
+    const land = landStore.activeLand
+    if (!land) return null
+    return JSON.parse(JSON.stringify({ sections: land.sections, theme: themeStore.theme ?? land.theme }))
+  }
+
+  /**
+   * Call before changing the draft. Consecutive calls with the same `key` within a second
+   * extend the previous step instead of starting a new one; calls without a key never merge.
+   */
+  function record(key?: string) {
+    const now = Date.now()
+    if (key && key === lastKey && now - lastAt < COALESCE_MS) {
+      lastAt = now
+      return
+    }
+    const entry = current()
+    if (!entry) return
+    undoStack.value = [...undoStack.value, entry].slice(-MAX_ENTRIES)
+    redoStack.value = []
+    lastKey = key ?? null
+    lastAt = now
+  }
+
+  function apply(entry: HistoryEntry) {
+    const land = landStore.activeLand
+    if (!land) return
+    landStore.updateLand(land.id, { sections: entry.sections, ...(entry.theme ? { theme: entry.theme } : {}) })
+    if (entry.theme) themeStore.setTheme(entry.theme)
+    // Keep the open section selected if it still exists, now with its restored content
+    const activeId = editorStore.activeSection?.id
+    if (activeId) editorStore.setActiveSection(entry.sections.find((s) => s.id === activeId) ?? null)
+    editorStore.markDirty()
+    lastKey = null
+  }
+
+  function undo() {
+    const entry = undoStack.value[undoStack.value.length - 1]
+    const now = current()
+    if (!entry || !now) return
+    undoStack.value = undoStack.value.slice(0, -1)
+    redoStack.value = [...redoStack.value, now]
+    apply(entry)
+  }
+
+  function redo() {
+    const entry = redoStack.value[redoStack.value.length - 1]
+    const now = current()
+    if (!entry || !now) return
+    redoStack.value = redoStack.value.slice(0, -1)
+    undoStack.value = [...undoStack.value, now]
+    apply(entry)
+  }
+
+  /** Removes the files once the deletion that dropped them is saved (and can't be undone). */
+  function deferRemoval(urls: string[]) {
+    pendingRemovals = [...pendingRemovals, ...urls]
+  }
+
+  /**
+   * Starts over. `saved` means the draft reached the database: files of deleted sections that
+   * no saved section still uses are removed. Otherwise (discard, restore) they're kept.
+   */
+  function clear({ saved = false } = {}) {
+    if (saved && pendingRemovals.length) {
+      const inUse = new Set((landStore.activeLand?.sections ?? []).flatMap(extractSectionUrls))
+      const urls = [...new Set(pendingRemovals)].filter((url) => !inUse.has(url))
+      Promise.all(urls.map((url) => storageService.remove(url))).catch((e) => {
+        console.error('[storage] Failed to clean up section assets:', e)
+      })
+    }
+    pendingRemovals = []
+    undoStack.value = []
+    redoStack.value = []
+    lastKey = null
+  }
+
+  if (!initialized) {
+    initialized = true
+    watch(() => landStore.activeLandId, () => clear())
+  }
+
+  return { canUndo, canRedo, record, undo, redo, deferRemoval, clear }
+}
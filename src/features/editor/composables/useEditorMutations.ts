@@ -2,6 +2,7 @@ import { computed } from 'vue'
 import { useLandStore } from '@/features/lands/stores/land'
 import { useEditorStore } from '@/features/editor/stores/editor'
 import { useThemeStore } from '@/features/theme/stores/theme'
+import { useEditorHistory } from './useEditorHistory'
 import { addToast } from '@/shared/composables/useToast'
 import { landService } from '@/features/lands/services/land.service'
 import type { Section } from '@/features/sections/types'
@@ -11,13 +12,15 @@ export function useEditorMutations() {
   const landStore = useLandStore()
   const editorStore = useEditorStore()
   const themeStore = useThemeStore()
+  const history = useEditorHistory()
 
   const activeLand = computed(() => landStore.activeLand)
 
   // ─── Internal helpers ───
 
-  function patchSection(sectionId: string, updater: (s: Section) => Section) {
+  function patchSection(sectionId: string, updater: (s: Section) => Section, historyKey?: string) {
     if (!activeLand.value) return
+    history.record(historyKey)
     const updatedSections = activeLand.value.sections.map((s) =>
       s.id === sectionId ? updater(s) : s
     )
@@ -31,11 +34,19 @@ export function useEditorMutations() {
   // ─── Section Content/Settings ───
 
   function updateSectionContent(sectionId: string, content: Record<string, unknown>) {
-    patchSection(sectionId, (s) => ({ ...s, content: { ...(s.content ?? {}), ...content } }) as unknown as Section)
+    patchSection(
+      sectionId,
+      (s) => ({ ...s, content: { ...(s.content ?? {}), ...content } }) as unknown as Section,
+      `content:${sectionId}:${Object.keys(content).sort()}`,
+    )
   }
 
   function updateSectionSettings(sectionId: string, settings: Record<string, unknown>) {
-    patchSection(sectionId, (s) => ({ ...s, settings_json: { ...s.settings_json, ...settings } }) as unknown as Section)
+    patchSection(
+      sectionId,
+      (s) => ({ ...s, settings_json: { ...s.settings_json, ...settings } }) as unknown as Section,
+      `settings:${sectionId}:${Object.keys(settings).sort()}`,
+    )
   }
 
   function updateSectionStyleVariant(sectionId: string, variant: string) {
@@ -53,6 +64,7 @@ export function useEditorMutations() {
   }
 
   // ─── Land Images ───
+  // Saved straight away, outside the undoable draft
 
   function updateLandImages(data: { cover_image?: string; avatar_image?: string }) {
     if (!activeLand.value) return
@@ -67,6 +79,7 @@ export function useEditorMutations() {
 
   function updateTheme(data: Partial<LandTheme>) {
     if (!activeLand.value) return
+    history.record(`theme:${Object.keys(data).sort()}`)
     const updatedTheme = { ...activeLand.value.theme, ...data }
     themeStore.setTheme(updatedTheme)
     landStore.updateLand(activeLand.value.id, { theme: updatedTheme })
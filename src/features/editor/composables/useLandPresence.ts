@@ -0,0 +1,167 @@
+import { computed, shallowRef, watch } from 'vue'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from '@/shared/lib/supabase'
+import { useLandStore } from '@/features/lands/stores/land'
+import { useEditorStore } from '@/features/editor/stores/editor'
+import { useThemeStore } from '@/features/theme/stores/theme'
+import { useUserStore } from '@/features/auth/stores/user'
+import { usePublishFlow } from '@/features/editor/composables/usePublishFlow'
+import { useEditorHistory } from '@/features/editor/composables/useEditorHistory'
+import { landService } from '@/features/lands/services/land.service'
+import { mergeDraft, type Draft } from '@/features/sections/merge'
+
+// Live collaboration on the active land over its private Realtime channel `land:<id>`.
+// Presence says who else is here and which section they have open — those sections are
+// soft-locked in the tree and the sidebar (flagged, not blocked). When someone saves, the
+// draft is fetched and merged into the local one: sections only they changed come in,
+// sections changed here stay as they are. If both changed a section, the snapshot and
+// revision are left behind so the next save asks which version to keep.
+
+interface Peer {
+  userId: string
+  name: string
+  sectionId: string | null
+}
+
+interface PresenceMeta {
+  name: string
+  sectionId: string | null
+}
+
+// ─── Singleton state ──────────────────────────────────────────────────────────
+const peers = shallowRef<Peer[]>([])
+let channel: RealtimeChannel | null = null
+// Newest revision announced on the channel, and the newest one merged in already
+let remoteRevision = 0
+let pulledRevision = 0
+let pullInFlight: Promise<void> | null = null
+let initialized = false
+
+export function useLandPresence() {
+  const landStore = useLandStore()
+  const editorStore = useEditorStore()
+  const themeStore = useThemeStore()
+  const userStore = useUserStore()
+  const { isSaving } = usePublishFlow()
+  const history = useEditorHistory()
+
+  const openSectionId = computed(() =>
+    editorStore.isEditMode && editorStore.showSectionSettings ? editorStore.activeSection?.id ?? null : null
+  )
+
+  /** Names of the others who have each section open, by section id. */
+  const sectionEditors = computed(() => {
+    const editors: Record<string, string[]> = {}
+    for (const peer of peers.value) {
+      if (peer.sectionId) (editors[peer.sectionId] ??= []).push(peer.name)
+    }
+    return editors
+  })
+
+  function meta(): PresenceMeta {
+    return { name: userStore.fullName || userStore.user?.email || 'Someone', sectionId: openSectionId.value }
+  }
+
+  function join(landId: string, userId: string) {
+    const joined = supabase.channel(`land:${landId}`, {
+      config: { private: true, presence: { key: userId } },
+    })
+    joined
+      .on('presence', { event: 'sync' }, () => {
+        const state = joined.presenceState<PresenceMeta>()
+        // One entry per person; with several tabs open, the one with a section open wins
+        peers.value = Object.entries(state)
+          .filter(([key, metas]) => key !== userId && metas.length)
+          .map(([key, metas]) => {
+            const active = metas.find((m) => m.sectionId) ?? metas[0]!
+            return { userId: key, name: active.name, sectionId: active.sectionId }
+          })
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'lands', filter: `id=eq.${landId}` }, (payload) => {
+        const revision = (payload.new as { revision?: number }).revision ?? 0
+        if (revision > remoteRevision) remoteRevision = revision
+        void pull()
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') void joined.track(meta())
+      })
+    channel = joined
+  }
+
+  function leave() {
+    if (channel) void supabase.removeChannel(channel)
+    channel = null
+    peers.value = []
+    remoteRevision = 0
+    pulledRevision = 0
+  }
+
+  /** Merges saves announced on the channel into the local draft; one pull runs at a time. */
+  function pull(): Promise<void> {
+    pullInFlight ??= pullRemote().finally(() => { pullInFlight = null })
+    return pullInFlight
+  }
+
+  async function pullRemote() {
+    try {
+      for (;;) {
+        const land = landStore.activeLand
+        // A running save merges for itself — whatever is still newer is pulled after it
+        if (!land || isSaving.value || remoteRevision <= Math.max(land.revision, pulledRevision)) return
+        const { revision, ...theirs } = await landService.getDraft(land.id)
+        const current = landStore.activeLand
+        if (current?.id !== land.id || isSaving.value || revision <= Math.max(current.revision, pulledRevision)) return
+        applyRemote(theirs, revision)
+        pulledRevision = revision
+      }
+    } catch (e) {
+      console.error('[realtime] Failed to pull remote changes:', e)
+    }
+  }
+
+  function applyRemote(theirs: Draft, revision: number) {
+    const land = landStore.activeLand!
+    const snapshot = editorStore.landSnapshot
+
+    let draft = theirs
+    let conflicted = false
+    if (editorStore.isEditMode && editorStore.isDirty && snapshot) {
+      const base: Draft = { sections: snapshot.sections, theme: editorStore.themeSnapshot ?? snapshot.theme, title: snapshot.title, handle: snapshot.handle }
+      const mine: Draft = { sections: land.sections, theme: themeStore.theme ?? land.theme, title: land.title, handle: land.handle }
+      const merged = mergeDraft(base, mine, theirs)
+      draft = merged.draft
+      conflicted = merged.conflicts.length > 0
+    }
+
+    landStore.updateLand(land.id, { ...draft, ...(conflicted ? {} : { revision }) })
+    // Undo steps predate their sections — undoing one would quietly revert them
+    history.clear()
+    themeStore.setTheme(draft.theme)
+    const activeId = editorStore.activeSection?.id
+    if (activeId) editorStore.setActiveSection(draft.sections.find((s) => s.id === activeId) ?? null)
+    // Their save is the new common ancestor — unless a conflict still has to be settled on save
+    if (editorStore.isEditMode && !conflicted) {
+      editorStore.takeSnapshot({ ...landStore.activeLand!, ...theirs, revision }, theirs.theme)
+    }
+  }
+
+  if (!initialized) {
+    initialized = true
+
+    watch([() => landStore.activeLandId, () => userStore.user?.id], ([landId, userId]) => {
+      leave()
+      if (landId && userId) join(landId, userId)
+    }, { immediate: true })
+
+    watch(openSectionId, () => {
+      if (channel) void channel.track(meta())
+    })
+
+    // Saves announced while this editor was saving itself
+    watch(isSaving, (saving) => {
+      if (!saving) void pull()
+    })
+  }
+
+  return { peers, sectionEditors }
+}
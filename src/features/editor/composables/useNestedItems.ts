@@ -1,6 +1,7 @@
 import { computed } from 'vue'
 import { useLandStore } from '@/features/lands/stores/land'
 import { useEditorStore } from '@/features/editor/stores/editor'
+import { useEditorHistory } from './useEditorHistory'
 import { sortByPosition, generatePositionAfter } from '@/shared/lib/position'
 import type { Section } from '@/features/sections/types'
 
@@ -10,18 +11,21 @@ type WithItems = { id: string; items: any[] }
 export function useNestedItems() {
   const landStore = useLandStore()
   const editorStore = useEditorStore()
+  const history = useEditorHistory()
   const activeLand = computed(() => landStore.activeLand)
 
-  function patchSection(sectionId: string, updater: (s: Section) => Section) {
+  function patchSection(sectionId: string, updater: (s: Section) => Section, historyKey?: string) {
     if (!activeLand.value) return
+    history.record(historyKey)
     const updated = activeLand.value.sections.map((s) => (s.id === sectionId ? updater(s) : s))
     landStore.updateLand(activeLand.value.id, { sections: updated })
     if (editorStore.activeSection?.id === sectionId) editorStore.setActiveSection(updated.find((s) => s.id === sectionId) ?? null)
     editorStore.markDirty()
   }
 
-  function patchKey(sectionId: string, key: string, value: unknown) {
-    patchSection(sectionId, (s) => ({ ...s, content: { ...(s.content ?? {}), [key]: value } }) as unknown as Section)
+  // Edits to one item's fields coalesce into a single undo step; adds, deletes and moves never do
+  function patchKey(sectionId: string, key: string, value: unknown, historyKey?: string) {
+    patchSection(sectionId, (s) => ({ ...s, content: { ...(s.content ?? {}), [key]: value } }) as unknown as Section, historyKey)
   }
 
   // ─── Flat array ops ───
@@ -36,7 +40,7 @@ export function useNestedItems() {
   }
 
   function updateInArray<T extends { id: string }>(sectionId: string, key: string, items: T[], id: string, data: Partial<T>) {
-    patchKey(sectionId, key, items.map((i) => (i.id === id ? { ...i, ...data } : i)))
+    patchKey(sectionId, key, items.map((i) => (i.id === id ? { ...i, ...data } : i)), `${sectionId}:${key}:${id}:${Object.keys(data).sort()}`)
   }
 
   function deleteFromArray<T extends { id: string }>(sectionId: string, key: string, items: T[], id: string) {
@@ -67,7 +71,7 @@ export function useNestedItems() {
   ) {
     patchKey(sectionId, parentKey, parents.map((p) =>
       p.id !== parentId ? p : { ...p, items: (p.items as I[]).map((i) => (i.id === itemId ? { ...i, ...data } : i)) }
-    ))
+    ), `${sectionId}:${parentKey}:${itemId}:${Object.keys(data).sort()}`)
   }
 
   function deleteFromNested<P extends WithItems>(
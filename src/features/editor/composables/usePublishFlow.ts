@@ -3,10 +3,12 @@ import { useRouter } from 'vue-router'
 import { useEditorStore } from '@/features/editor/stores/editor'
 import { useLandStore } from '@/features/lands/stores/land'
 import { useThemeStore } from '@/features/theme/stores/theme'
+import { useEditorHistory } from '@/features/editor/composables/useEditorHistory'
 import { useAppModals } from '@/features/modals/composables/useAppModals'
 import { addToast } from '@/shared/composables/useToast'
 import { landService } from '@/features/lands/services/land.service'
 import { publishService } from '@/features/integrations/services/publish.service'
+import { mergeDraft, resolveConflicts, type Draft, type SectionConflict } from '@/features/sections/merge'
 
 // ─── Singleton state ──────────────────────────────────────────────────────────
 const isSaving = ref(false)
@@ -18,13 +20,21 @@ const pendingPath = ref<string | null>(null)
 const leaveContext = ref<'navigate' | 'close'>('navigate')
 const showLeaveModal = ref(false)
 const showPublishedModal = ref(false)
+// Sections a collaborator also changed, waiting for the owner to pick a version
+const saveConflicts = ref<SectionConflict[]>([])
+let settleSaveConflicts: ((picks: Record<string, 'mine' | 'theirs'> | null) => void) | null = null
+let saveInFlight: Promise<boolean> | null = null
 let upToDateTimer: ReturnType<typeof setTimeout> | null = null
 let initialized = false
 
+// Conflicting saves in a row before giving up (each one merges again)
+const MAX_SAVE_ATTEMPTS = 3
+
 export function usePublishFlow() {
   const editorStore = useEditorStore()
   const landStore = useLandStore()
   const themeStore = useThemeStore()
+  const history = useEditorHistory()
   const appModals = useAppModals()
   const router = useRouter()
 
@@ -39,27 +49,88 @@ export function usePublishFlow() {
     upToDateTimer = setTimeout(() => { showUpToDate.value = false }, 2500)
   }
 
-  async function save() {
+  /** Saves the draft; one save runs at a time and a second call joins it. */
+  function save(): Promise<boolean> {
+    saveInFlight ??= saveDraft().finally(() => { saveInFlight = null })
+    return saveInFlight
+  }
+
+  async function saveDraft(): Promise<boolean> {
     const land = landStore.activeLand
-    if (!land) return
+    if (!land) return false
     isSaving.value = true
     try {
-      await landService.save(land.id, {
-        sections: land.sections,
-        theme: themeStore.theme ?? land.theme,
-        title: land.title,
-        handle: land.handle,
-      })
-      editorStore.markClean()
-      editorStore.takeSnapshot(landStore.activeLand!, themeStore.theme)
-      addToast('Changes saved')
+      let draft: Draft = { sections: land.sections, theme: themeStore.theme ?? land.theme, title: land.title, handle: land.handle }
+      // What this editor last loaded or saved — the common ancestor for merging
+      const snapshot = editorStore.landSnapshot
+      let base: Draft | null = snapshot
+        ? { sections: snapshot.sections, theme: editorStore.themeSnapshot ?? snapshot.theme, title: snapshot.title, handle: snapshot.handle }
+        : null
+      let revision = land.revision
+      let merged = false
+
+      for (let attempt = 1; ; attempt++) {
+        const result = await landService.save(land.id, draft, revision)
+        if (result.forbidden) {
+          addToast('You can no longer edit this project', 'error')
+          return false
+        }
+        if (!result.conflict) {
+          // Someone saved in between: show the merged draft
+          landStore.updateLand(land.id, { ...(merged ? draft : {}), revision: result.revision })
+          if (merged) {
+            themeStore.setTheme(draft.theme)
+            const activeId = editorStore.activeSection?.id
+            if (activeId) editorStore.setActiveSection(draft.sections.find((s) => s.id === activeId) ?? null)
+          }
+          editorStore.markClean()
+          editorStore.takeSnapshot(landStore.activeLand!, themeStore.theme)
+          history.clear({ saved: true })
+          if (result.unpublished) {
+            // The URL changed — the page under the old handle was taken down
+            landStore.updateLand(land.id, { is_published: false, published_handle: null })
+            editorStore.markUnpublished()
+            addToast('Changes saved — publish to go live at the new URL')
+          } else {
+            addToast(merged ? 'Changes saved with a collaborator\'s edits' : 'Changes saved')
+          }
+          return true
+        }
+
+        if (attempt === MAX_SAVE_ATTEMPTS) throw new Error('Save kept conflicting')
+        const { revision: current, ...theirs } = await landService.getDraft(land.id)
+        // No snapshot to compare against: this draft wins, as saves did before
+        const { draft: next, conflicts } = mergeDraft(base ?? theirs, draft, theirs)
+        draft = next
+        if (conflicts.length) {
+          const picks = await askSaveConflicts(conflicts)
+          if (!picks) return false
+          draft = resolveConflicts(draft, conflicts, picks)
+        }
+        base = theirs
+        revision = current
+        merged = true
+      }
     } catch {
       addToast('Failed to save — please try again', 'error')
+      return false
     } finally {
       isSaving.value = false
     }
   }
 
+  function askSaveConflicts(conflicts: SectionConflict[]): Promise<Record<string, 'mine' | 'theirs'> | null> {
+    saveConflicts.value = conflicts
+    return new Promise((resolve) => { settleSaveConflicts = resolve })
+  }
+
+  /** Answer from `SaveConflictModal`: a version per conflicting section, or null to cancel the save. */
+  function resolveSaveConflicts(picks: Record<string, 'mine' | 'theirs'> | null) {
+    saveConflicts.value = []
+    settleSaveConflicts?.(picks)
+    settleSaveConflicts = null
+  }
+
   async function publish() {
     const land = landStore.activeLand
     if (!land) return
@@ -67,10 +138,11 @@ export function usePublishFlow() {
     showPublishedModal.value = true
     isPublishing.value = true
     try {
-      await save()
-      await publishService.publish(land)
-      await landService.updateLand(land.id, { is_published: true })
-      landStore.updateLand(land.id, { is_published: true })
+      // The publish function renders from the database row, so a failed save must not publish stale content
+      if (!await save()) throw new Error('Save failed')
+      await publishService.publish(land.id)
+      // The function records the published state on the row
+      landStore.updateLand(land.id, { is_published: true, published_handle: land.handle })
       editorStore.markPublished()
       hasPublishedClean.value = true
       publishStatus.value = 'done'
@@ -89,6 +161,7 @@ export function usePublishFlow() {
     if (editorStore.themeSnapshot) {
       themeStore.setTheme(editorStore.themeSnapshot)
     }
+    history.clear()
   }
 
   function enterEditor() {
@@ -161,6 +234,7 @@ export function usePublishFlow() {
     leaveContext,
     showLeaveModal,
     showPublishedModal,
+    saveConflicts,
     canPublish,
     save,
     publish,
@@ -171,6 +245,7 @@ export function usePublishFlow() {
     confirmLeave,
     cancelLeave,
     confirmPublished,
+    resolveSaveConflicts,
     showUpToDateHint,
   }
 }
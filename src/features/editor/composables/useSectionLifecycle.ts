@@ -6,12 +6,14 @@ import { usePlan } from '@/features/plan/composables/usePlan'
 import { sortByPosition, generatePositionBetween } from '@/shared/lib/position'
 import { SECTION_DEFAULTS } from '@/features/sections/defaults'
 import { buildSectionContent } from '@/features/sections/purposeDefaults'
-import { storageService, extractSectionUrls } from '@/features/integrations/services/storage.service'
+import { extractSectionUrls } from '@/features/integrations/services/storage.service'
+import { useEditorHistory } from './useEditorHistory'
 import type { Section, SectionType } from '@/features/sections/types'
 
 export function useSectionLifecycle() {
   const landStore = useLandStore()
   const editorStore = useEditorStore()
+  const history = useEditorHistory()
   const { withinSectionLimit, withinCollectionSectionLimit, canAddSectionType, maxSections, maxCollectionSections } = usePlan()
 
   const activeLand = computed(() => landStore.activeLand)
@@ -79,6 +81,7 @@ export function useSectionLifecycle() {
       newSection.content?.items?.forEach((item) => { item.section_id = newSection.id })
     }
 
+    history.record()
     landStore.updateLand(activeLand.value.id, {
       sections: [...activeLand.value.sections, newSection],
     })
@@ -91,12 +94,9 @@ export function useSectionLifecycle() {
     if (!activeLand.value) return
     const section = activeLand.value.sections.find((s) => s.id === sectionId)
     if (section?.type === 'header' || section?.type === 'footer') return
-    if (section) {
-      const urls = extractSectionUrls(section)
-      Promise.all(urls.map((url) => storageService.remove(url))).catch((e) => {
-        console.error('[storage] Failed to clean up section assets:', e)
-      })
-    }
+    // The section's files stay until the deletion is saved, so undo can bring them back
+    if (section) history.deferRemoval(extractSectionUrls(section))
+    history.record()
     const updatedSections = activeLand.value.sections.filter((s) => s.id !== sectionId)
     landStore.updateLand(activeLand.value.id, { sections: updatedSections })
     if (editorStore.activeSection?.id === sectionId) editorStore.setActiveSection(null)
@@ -125,6 +125,7 @@ export function useSectionLifecycle() {
       position,
       created_at: new Date().toISOString(),
     }
+    history.record()
     landStore.updateLand(activeLand.value.id, {
       sections: [...activeLand.value.sections, copy],
     })
@@ -133,6 +134,7 @@ export function useSectionLifecycle() {
 
   function reorderSection(sectionId: string, newPosition: string) {
     if (!activeLand.value) return
+    history.record()
     const updatedSections = activeLand.value.sections.map((s) =>
       s.id === sectionId ? { ...s, position: newPosition } : s
     )
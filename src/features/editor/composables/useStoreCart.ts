@@ -0,0 +1,163 @@
+import { ref, reactive, computed, watch } from 'vue'
+import { useLandStore } from '@/features/lands/stores/land'
+import { supabase } from '@/shared/lib/supabase'
+import { sortByPosition } from '@/shared/lib/position'
+import { formatPrice } from '@/shared/lib/currency'
+import { defaultSelection, variantLabel } from '@/features/sections/stock'
+import type { Store, StoreItem } from '@/features/sections/types/store'
+
+interface CartLine {
+  sectionId: string
+  storeId: string
+  itemId: string
+  selection: Record<string, string>
+  quantity: number
+}
+
+// stripe-checkout rejects anything above this
+const MAX_QUANTITY = 99
+
+// ─── Module-level singleton state ───
+// One cart for every store section on the page, kept in localStorage per land under the
+// same key the published page uses.
+const lines = ref<CartLine[]>([])
+// Options picked per item ({ variantId: value }); unpicked variants use defaultSelection()
+const selections = reactive<Record<string, Record<string, string>>>({})
+const isOpen = ref(false)
+const isLoading = ref(false)
+const error = ref<string | null>(null)
+let initialized = false
+
+function storageKey(landId: string) {
+  return `lands-cart:${landId}`
+}
+
+function lineKey(line: Pick<CartLine, 'itemId' | 'selection'>) {
+  return line.itemId + JSON.stringify(line.selection)
+}
+
+/**
+ * Cart shared by the store sections' previews. Checkout posts every line to
+ * stripe-checkout, which builds a single session — the same request the published page makes.
+ */
+export function useStoreCart() {
+  const landStore = useLandStore()
+
+  if (!initialized) {
+    initialized = true
+    watch(() => landStore.activeLandId, (landId) => {
+      lines.value = []
+      if (!landId) return
+      try {
+        lines.value = JSON.parse(localStorage.getItem(storageKey(landId)) ?? '[]')
+      } catch {
+        // Unreadable entry — start with an empty cart
+      }
+    }, { immediate: true })
+
+    watch(lines, (value) => {
+      const landId = landStore.activeLandId
+      if (landId) localStorage.setItem(storageKey(landId), JSON.stringify(value))
+    }, { deep: true })
+  }
+
+  // Lines whose item still exists, with its current title and price
+  const cartLines = computed(() => {
+    const sections = landStore.activeLand?.sections ?? []
+    return lines.value.flatMap((line) => {
+      const section = sections.find((s) => s.id === line.sectionId)
+      const store = ((section?.content as any)?.stores as Store[] | undefined)?.find((s) => s.id === line.storeId)
+      const item = store?.items.find((i) => i.id === line.itemId)
+      return item ? [{ ...line, key: lineKey(line), item, variant: variantLabel(item, line.selection) }] : []
+    })
+  })
+
+  // The drawer is rendered once, by the first store section on the page
+  const drawerSectionId = computed(() =>
+    sortByPosition(landStore.activeLand?.sections ?? []).find((s) => s.type === 'store')?.id ?? null,
+  )
+
+  const count = computed(() => cartLines.value.reduce((sum, l) => sum + l.quantity, 0))
+  const total = computed(() => cartLines.value.reduce((sum, l) => sum + l.item.price * l.quantity, 0))
+
+  const currency = computed(() => landStore.activeLand?.currency ?? 'usd')
+  const price = (amount: number) => formatPrice(amount, currency.value)
+
+  function selectionFor(item: StoreItem): Record<string, string> {
+    return { ...defaultSelection(item), ...selections[item.id] }
+  }
+
+  function pick(item: StoreItem, variantId: string, value: string) {
+    selections[item.id] = { ...selections[item.id], [variantId]: value }
+  }
+
+  function add(sectionId: string, store: Store, item: StoreItem) {
+    const selection = selectionFor(item)
+    const existing = lines.value.find((l) => lineKey(l) === lineKey({ itemId: item.id, selection }))
+    if (existing) existing.quantity = Math.min(existing.quantity + 1, MAX_QUANTITY)
+    else lines.value.push({ sectionId, storeId: store.id, itemId: item.id, selection, quantity: 1 })
+    error.value = null
+    isOpen.value = true
+  }
+
+  function setQuantity(key: string, quantity: number) {
+    error.value = null
+    if (quantity <= 0) {
+      lines.value = lines.value.filter((l) => lineKey(l) !== key)
+      return
+    }
+    const line = lines.value.find((l) => lineKey(l) === key)
+    if (line) line.quantity = Math.min(quantity, MAX_QUANTITY)
+  }
+
+  async function checkout() {
+    const landId = landStore.activeLand?.id
+    if (!landId || !cartLines.value.length) return
+
+    isLoading.value = true
+    error.value = null
+
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('stripe-checkout', {
+        body: {
+          landId,
+          lines: cartLines.value.map(({ sectionId, storeId, itemId, selection, quantity }) => ({
+            sectionId, storeId, itemId, selection, quantity,
+          })),
+          origin: window.location.origin,
+        },
+      })
+
+      const response = (fnError as { context?: Response } | null)?.context
+      if (response?.status === 409) {
+        const body = await response.json().catch(() => null)
+        error.value = body?.error ?? 'An item in your cart just sold out'
+        return
+      }
+      if (fnError || !data?.url) {
+        error.value = fnError?.message ?? 'Could not start checkout'
+        return
+      }
+
+      window.location.href = data.url
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  return {
+    cartLines,
+    drawerSectionId,
+    count,
+    total,
+    price,
+    isOpen,
+    isLoading,
+    error,
+    selectionFor,
+    pick,
+    add,
+    setQuantity,
+    checkout,
+  }
+}
@@ -51,6 +51,11 @@ export const useEditorStore = defineStore('editor', () => {
     hasUnpublishedChanges.value = false
   }
 
+  /** Flags saved settings that only reach the live page on the next publish. */
+  function markUnpublished() {
+    hasUnpublishedChanges.value = true
+  }
+
   function setPanelPos(pos: { x: number; y: number }) {
     panelPos.value = pos
   }
@@ -70,6 +75,7 @@ export const useEditorStore = defineStore('editor', () => {
     markDirty,
     markClean,
     markPublished,
+    markUnpublished,
     panelPos,
     setPanelPos,
   }
@@ -21,20 +21,25 @@ export const collaboratorService = {
     return data.collaborator as Collaborator
   },
 
+  // RLS leaves the row alone unless the caller manages collaborators (owner or admin)
   async updateRole(collaboratorId: string, role: CollaboratorRole): Promise<void> {
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('collaborators')
       .update({ role })
       .eq('id', collaboratorId)
+      .select('id')
     if (error) throw new Error(error.message)
+    if (!data?.length) throw new Error('Only the owner and admins can change roles')
   },
 
   async remove(collaboratorId: string): Promise<void> {
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('collaborators')
       .delete()
       .eq('id', collaboratorId)
+      .select('id')
     if (error) throw new Error(error.message)
+    if (!data?.length) throw new Error('Only the owner and admins can remove collaborators')
   },
 
   async resendInvite(landId: string, email: string, role: CollaboratorRole): Promise<void> {
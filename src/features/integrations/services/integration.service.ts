@@ -1,38 +1,73 @@
 import { supabase } from '@/shared/lib/supabase'
-import type { CampaignIntegration, CampaignProviderType } from '@/features/integrations/types/campaign'
+import type { CampaignConfig, CampaignIntegration, CampaignProviderType } from '@/features/integrations/types/campaign'
 
 export interface ProviderList {
   id: string
   name: string
 }
 
+/** What the owner typed to connect a provider. Blank credentials keep the stored ones. */
+interface CampaignIntegrationInput {
+  provider: CampaignProviderType
+  config: Pick<CampaignConfig, 'list_id' | 'list_name' | 'webhook_url'>
+  api_key?: string
+  headers?: { key: string; value: string }[]
+}
+
+// Edge-function errors carry the reason in the response body
+async function functionError(error: Error): Promise<Error> {
+  let message = error.message
+  try {
+    const body = await (error as { context?: Response }).context?.json()
+    if (body?.error) message = body.error
+  } catch { /* ignore */ }
+  return new Error(message)
+}
+
 /**
- * Persists a campaign integration for the given land.
- * In production this would PATCH the lands table in Supabase.
+ * Saves the land's campaign integration through `campaign-integration`, which keeps the
+ * credentials server-side. Returns the integration as stored, with the key masked.
  */
-async function saveCampaignIntegration(
-  landId: string,
-  integration: CampaignIntegration,
-): Promise<void> {
-  const { error } = await supabase.from('lands').update({ campaign_integration: integration }).eq('id', landId)
-  if (error) throw new Error(error.message)
+async function saveCampaignIntegration(landId: string, input: CampaignIntegrationInput): Promise<CampaignIntegration> {
+  const { data, error } = await supabase.functions.invoke('campaign-integration', {
+    body: { action: 'save', landId, ...input },
+  })
+  if (error) throw await functionError(error)
+  return data.integration as CampaignIntegration
 }
 
 /**
- * Removes the campaign integration for the given land.
+ * Removes the campaign integration for the given land, credentials included.
  */
 async function removeCampaignIntegration(landId: string): Promise<void> {
-  const { error } = await supabase.from('lands').update({ campaign_integration: null }).eq('id', landId)
-  if (error) throw new Error(error.message)
+  const { error } = await supabase.functions.invoke('campaign-integration', {
+    body: { action: 'remove', landId },
+  })
+  if (error) throw await functionError(error)
 }
 
-async function fetchProviderLists(provider: CampaignProviderType, apiKey: string): Promise<ProviderList[]> {
+/**
+ * Lists, forms or audiences for the provider — with the key just typed, or without one to use
+ * the key stored for the land.
+ */
+async function fetchProviderLists(provider: CampaignProviderType, apiKey: string, landId: string): Promise<ProviderList[]> {
   const { data, error } = await supabase.functions.invoke('fetch-campaign-lists', {
-    body: { provider, api_key: apiKey },
+    body: apiKey ? { provider, api_key: apiKey } : { provider, landId },
   })
-  if (error) throw new Error(error.message)
-  if (data?.error) throw new Error(data.error)
+  if (error) throw await functionError(error)
   return (data?.lists ?? []) as ProviderList[]
 }
 
-export const integrationService = { saveCampaignIntegration, removeCampaignIntegration, fetchProviderLists }
+/**
+ * Generates a new signing secret for the land's webhook integration, replacing the old one.
+ * The secret is only ever returned here — show it to the owner straight away.
+ */
+async function rotateWebhookSecret(landId: string): Promise<{ secret: string; createdAt: string }> {
+  const { data, error } = await supabase.functions.invoke('campaign-webhook', {
+    body: { action: 'rotate-secret', landId },
+  })
+  if (error) throw await functionError(error)
+  return data as { secret: string; createdAt: string }
+}
+
+export const integrationService = { saveCampaignIntegration, removeCampaignIntegration, fetchProviderLists, rotateWebhookSecret }
@@ -1,14 +1,38 @@
 import { supabase } from '@/shared/lib/supabase'
-import type { Land } from '@/features/lands/types'
+import type { Land, LandVersion } from '@/features/lands/types'
+
+type RestoredFields = Pick<Land, 'title' | 'description' | 'avatar_image' | 'sections' | 'theme' | 'meta_title' | 'meta_description' | 'og_image'> & Partial<Pick<Land, 'revision'>>
+
+interface PublishResult {
+  url: string
+  version: LandVersion | null
+  land?: RestoredFields
+}
 
 const MAX_ATTEMPTS = 3
 
-async function invokeWithRetry(land: Land): Promise<{ url: string }> {
+async function extractError(error: unknown): Promise<string> {
+  try {
+    const e = error as { context?: Response; message?: string }
+    if (e.context?.json) {
+      const json = await e.context.json() as { error?: string; message?: string }
+      return json?.error ?? json?.message ?? 'Unknown error'
+    }
+    return e.message ?? 'Unknown error'
+  } catch {
+    return (error as Error).message ?? 'Unknown error'
+  }
+}
+
+async function invokeWithRetry(body: { landId: string; versionId?: string }): Promise<PublishResult> {
   let lastError: Error | null = null
   for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-    const { data, error } = await supabase.functions.invoke('publish', { body: { land } })
-    if (!error) return data as { url: string }
-    lastError = new Error(error.message)
+    const { data, error } = await supabase.functions.invoke('publish', { body })
+    if (!error) return data as PublishResult
+    lastError = new Error(await extractError(error))
+    // 4xx (unauthorized, forbidden, not found) won't succeed on retry
+    const status = (error as { context?: Response }).context?.status
+    if (status && status < 500) break
     if (attempt < MAX_ATTEMPTS) {
       await new Promise((r) => setTimeout(r, 500 * 2 ** (attempt - 1))) // 500ms, 1s
     }
@@ -17,7 +41,49 @@ async function invokeWithRetry(land: Land): Promise<{ url: string }> {
 }
 
 export const publishService = {
-  async publish(land: Land): Promise<{ url: string }> {
-    return invokeWithRetry(land)
+  /**
+   * Publishes the land as currently saved in the database.
+   * The edge function re-reads the row — save pending edits before calling this.
+   */
+  async publish(landId: string): Promise<PublishResult> {
+    return invokeWithRetry({ landId })
+  },
+
+  /**
+   * Re-publishes a previous version and restores its content into the land row.
+   * Returns the restored fields so the caller can refresh local state.
+   */
+  async restoreVersion(landId: string, versionId: string): Promise<PublishResult> {
+    return invokeWithRetry({ landId, versionId })
+  },
+
+  /**
+   * Removes the live page (and its gate and custom-domain mapping) from the edge and marks
+   * the land unpublished. `staleOnly` limits it to a page left under a previous handle.
+   */
+  async unpublish(landId: string, options: { staleOnly?: boolean } = {}): Promise<{ unpublished: boolean }> {
+    const { data, error } = await supabase.functions.invoke('unpublish', { body: { landId, ...options } })
+    if (error) throw new Error(await extractError(error))
+    return data as { unpublished: boolean }
+  },
+
+  async listVersions(landId: string): Promise<LandVersion[]> {
+    const { data, error } = await supabase
+      .from('land_versions')
+      .select('id, land_id, version, published_by_email, restored_from, created_at')
+      .eq('land_id', landId)
+      .order('created_at', { ascending: false })
+    if (error) throw new Error(error.message)
+    return (data ?? []) as LandVersion[]
+  },
+
+  async getVersionHtml(versionId: string): Promise<string> {
+    const { data, error } = await supabase
+      .from('land_versions')
+      .select('html')
+      .eq('id', versionId)
+      .single()
+    if (error) throw new Error(error.message)
+    return data.html as string
   },
 }
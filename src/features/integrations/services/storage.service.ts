@@ -2,6 +2,8 @@ import { supabase } from '@/shared/lib/supabase'
 import type { Section } from '@/features/sections/types'
 
 const BUCKET = 'projects'
+// Private: digital products, only handed to buyers as signed links by the `download` function
+const DOWNLOADS_BUCKET = 'downloads'
 
 /** Collect every Supabase storage URL embedded in a section's content/settings. */
 export function extractSectionUrls(section: Section): string[] {
@@ -79,4 +81,24 @@ export const storageService = {
 
     await supabase.storage.from(BUCKET).remove([path])
   },
+
+  /**
+   * Uploads a digital product to the private bucket and returns its object path,
+   * which ends with the original file name (used for the buyer's download).
+   */
+  async uploadPrivate(file: File): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Not authenticated')
+
+    const name = file.name.replace(/[^\w.\- ]+/g, '_') || 'file'
+    const path = `${user.id}/${crypto.randomUUID()}/${name}`
+
+    const { error } = await supabase.storage.from(DOWNLOADS_BUCKET).upload(path, file, { upsert: false })
+    if (error) throw new Error(error.message)
+    return path
+  },
+
+  async removePrivate(path: string): Promise<void> {
+    await supabase.storage.from(DOWNLOADS_BUCKET).remove([path])
+  },
 }
@@ -47,6 +47,19 @@ export const stripeService = {
     if (error) throw new Error(error.message)
   },
 
+  /** The land's store currency and the currencies its connected Stripe account can charge in. */
+  async getCurrency(landId: string): Promise<{ currency: string; supported: string[] }> {
+    const { data, error } = await supabase.functions.invoke('store-currency', { body: { landId } })
+    if (error) throw new Error(await extractError(error))
+    return data as { currency: string; supported: string[] }
+  },
+
+  /** Saves the store currency after store-currency checks the Stripe account supports it. */
+  async setCurrency(landId: string, currency: string): Promise<void> {
+    const { error } = await supabase.functions.invoke('store-currency', { body: { landId, currency } })
+    if (error) throw new Error(await extractError(error))
+  },
+
   async createSubscriptionCheckout(landId: string, billing: 'monthly' | 'yearly'): Promise<string> {
     const origin = window.location.origin
     const { data, error } = await supabase.functions.invoke('create-subscription-checkout', {
@@ -18,12 +18,15 @@ export interface CampaignProviderMeta {
 
 // ─── Config ───────────────────────────────────────────────────────────────────
 
+// API keys, header values and the signing secret never reach the browser: `campaign-integration`
+// stores them server-side and leaves only what's shown here.
 export interface CampaignConfig {
-  api_key?: string
   list_id?: string
   list_name?: string  // human-readable name of the selected list, stored for display
   webhook_url?: string
-  headers?: Record<string, string>
+  header_names?: string[]  // custom provider; the values stay server-side
+  api_key_hint?: string    // masked stored key, e.g. "••••1234"
+  signing_secret_created_at?: string  // set by `campaign-webhook`; the secret itself stays server-side
 }
 
 export interface CampaignIntegration {
@@ -127,6 +130,7 @@ export const CAMPAIGN_PROVIDERS: CampaignProviderMeta[] = [
     instructions: [
       { text: 'Provide a URL that accepts POST requests with { email, name } as JSON' },
       { text: 'Your endpoint should return a 2xx status code on success' },
+      { text: 'Verify the Lands-Signature header with the signing secret you get after connecting' },
     ],
   },
   {
@@ -138,6 +142,7 @@ export const CAMPAIGN_PROVIDERS: CampaignProviderMeta[] = [
     instructions: [
       { text: 'Enter the URL of your endpoint. It will receive a POST with { email, name } as JSON' },
       { text: 'Add any authentication headers below (e.g. Authorization: Bearer your-token)' },
+      { text: 'Verify the Lands-Signature header with the signing secret you get after connecting' },
     ],
   },
 ]
@@ -22,3 +22,31 @@ export interface Collaborator {
   invited_at: string
   joined_at: string | null
 }
+
+/** The caller's standing on a land: its owner, or an active collaborator's role. */
+export type LandRole = 'owner' | CollaboratorRole
+
+export type LandAction =
+  | 'edit_content'
+  | 'publish'
+  | 'manage_domains'
+  | 'manage_integrations'
+  | 'manage_collaborators'
+  | 'manage_orders'
+  | 'manage_stripe'
+  | 'manage_billing'
+  | 'manage_land'
+
+// Mirrors `land_can()` in the database, which RLS and the edge functions enforce — this copy
+// only decides what the dashboard shows
+export const LAND_PERMISSIONS: Record<LandAction, LandRole[]> = {
+  edit_content: ['owner', 'admin', 'editor'],       // sections, theme, title, images, SEO
+  publish: ['owner', 'admin'],                      // publish/unpublish, versions, handle, privacy
+  manage_domains: ['owner', 'admin'],
+  manage_integrations: ['owner', 'admin'],          // campaign integration and its deliveries
+  manage_collaborators: ['owner', 'admin'],
+  manage_orders: ['owner', 'admin'],                // fulfil orders, resend download links
+  manage_stripe: ['owner'],                         // connected account, store currency
+  manage_billing: ['owner'],                        // plan and subscription
+  manage_land: ['owner'],                           // delete or transfer the land
+}
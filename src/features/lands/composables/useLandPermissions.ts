@@ -0,0 +1,28 @@
+import { computed } from 'vue'
+import { useLandStore } from '@/features/lands/stores/land'
+import { useUserStore } from '@/features/auth/stores/user'
+import { LAND_PERMISSIONS, type LandAction, type LandRole } from '@/features/integrations/types/collaborator'
+import type { Land } from '@/features/lands/types'
+
+export function useLandPermissions() {
+  const landStore = useLandStore()
+  const userStore = useUserStore()
+
+  function roleOn(land: Land | null): LandRole | null {
+    const user = userStore.user
+    if (!land || !user) return null
+    if (land.user_id === user.id) return 'owner'
+    const collaborator = land.collaborators.find((c) => c.email === user.email && c.status === 'active')
+    return collaborator?.role ?? null
+  }
+
+  const role = computed(() => roleOn(landStore.activeLand))
+
+  /** Returns true if the current user's role on `land` (the active land by default) allows `action`. */
+  function can(action: LandAction, land: Land | null = landStore.activeLand): boolean {
+    const r = roleOn(land)
+    return !!r && LAND_PERMISSIONS[action].includes(r)
+  }
+
+  return { role, can }
+}
@@ -1,8 +1,9 @@
 import { supabase } from '@/shared/lib/supabase'
-import type { Land } from '@/features/lands/types'
+import type { Land, LandTransfer } from '@/features/lands/types'
 import type { LandTheme } from '@/features/theme/types'
+import { publishService } from '@/features/integrations/services/publish.service'
 
-const LAND_DEFAULTS = { is_published: false, is_private: false, private_password: null, stripe_customer_id: null, stripe_subscription_id: null }
+const LAND_DEFAULTS = { is_published: false, published_handle: null, is_private: false, private_password_set_at: null, stripe_customer_id: null, stripe_subscription_id: null, currency: 'usd', revision: 0 }
 
 const DEFAULT_THEME: LandTheme = {
   theme_preset: 'minimal',
@@ -24,7 +25,24 @@ function normalizeLand(row: Record<string, unknown>): Land {
   } as Land
 }
 
-let saveController: AbortController | null = null
+async function functionError(error: Error): Promise<Error> {
+  let message = error.message
+  try {
+    const body = await (error as { context?: Response }).context?.json()
+    if (body?.error) message = body.error
+  } catch { /* ignore */ }
+  return new Error(message)
+}
+
+/**
+ * After a write that may have changed the handle: if the page is still served under the
+ * old one, take it down. Returns true when the land went offline.
+ */
+async function takeDownIfRenamed(id: string, row: { handle: string; published_handle: string | null } | null): Promise<boolean> {
+  if (!row?.published_handle || row.published_handle === row.handle) return false
+  const { unpublished } = await publishService.unpublish(id, { staleOnly: true })
+  return unpublished
+}
 
 export const landService = {
   async getMyLands(): Promise<Land[]> {
@@ -79,32 +97,168 @@ export const landService = {
     return normalizeLand(data)
   },
 
-  async save(id: string, updates: { sections?: Land['sections']; theme?: Land['theme']; title?: string; handle?: string }): Promise<void> {
-    saveController?.abort()
-    saveController = new AbortController()
-
-    const { error } = await supabase
+  /**
+   * Saves the editor's draft only if the land is still at `revision` (compare-and-set; the
+   * database bumps it on every content change). Resolves to the new revision, plus
+   * `unpublished: true` when a handle change took the live page offline — to
+   * `{ conflict: true }` when someone else saved first: merge with `getDraft()` and retry —
+   * or to `{ forbidden: true }` when the caller may no longer edit the land (or it's gone).
+   */
+  async save(
+    id: string,
+    updates: { sections?: Land['sections']; theme?: Land['theme']; title?: string; handle?: string },
+    revision: number,
+  ): Promise<
+    | { conflict: false; forbidden?: false; revision: number; unpublished: boolean }
+    | { conflict: true; forbidden?: false }
+    | { conflict: false; forbidden: true }
+  > {
+    const { data, error } = await supabase
       .from('lands')
       .update({ ...updates, updated_at: new Date().toISOString() })
       .eq('id', id)
-      .abortSignal(saveController.signal)
+      .eq('revision', revision)
+      .select('handle, published_handle, revision')
+      .maybeSingle()
 
-    if (error) {
-      if (error.name === 'AbortError') return // superseded by a newer save
-      throw new Error(error.message)
+    if (error) throw new Error(error.message)
+    if (!data) {
+      // No row updated: a newer revision is a conflict; the same revision means RLS refused
+      // the update, and no row at all that the land can't be read any more
+      const { data: current, error: readError } = await supabase
+        .from('lands')
+        .select('revision')
+        .eq('id', id)
+        .maybeSingle()
+      if (readError) throw new Error(readError.message)
+      return current && current.revision !== revision ? { conflict: true } : { conflict: false, forbidden: true }
+    }
+
+    return {
+      conflict: false,
+      revision: data.revision,
+      unpublished: updates.handle ? await takeDownIfRenamed(id, data) : false,
     }
   },
 
-  async updateLand(id: string, updates: Partial<Pick<Land, 'handle' | 'title' | 'description' | 'avatar_image' | 'cover_image' | 'plan' | 'is_published' | 'is_private' | 'private_password' | 'meta_title' | 'meta_description' | 'og_image'>>): Promise<void> {
-    const { error } = await supabase
+  /** The draft as saved now, for merging after a conflicting save. */
+  async getDraft(id: string): Promise<Pick<Land, 'sections' | 'theme' | 'title' | 'handle' | 'revision'>> {
+    const { data, error } = await supabase
+      .from('lands')
+      .select('sections, theme, title, handle, revision')
+      .eq('id', id)
+      .single()
+
+    if (error) throw new Error(error.message)
+    const land = normalizeLand(data)
+    return { sections: land.sections, theme: land.theme, title: land.title, handle: land.handle, revision: land.revision }
+  },
+
+  async updateLand(id: string, updates: Partial<Pick<Land, 'handle' | 'title' | 'description' | 'avatar_image' | 'cover_image' | 'plan' | 'is_published' | 'is_private' | 'meta_title' | 'meta_description' | 'og_image'>>): Promise<{ unpublished: boolean }> {
+    const { data, error } = await supabase
       .from('lands')
       .update({ ...updates, updated_at: new Date().toISOString() })
       .eq('id', id)
+      .select('handle, published_handle')
+      .single()
 
     if (error) throw new Error(error.message)
+    return { unpublished: updates.handle ? await takeDownIfRenamed(id, data) : false }
+  },
+
+  /**
+   * Sets a private land's password — hashed server-side, never readable again — or removes it
+   * with `null`. Returns when it was set. Takes effect on the live page at the next publish.
+   */
+  async setPrivatePassword(id: string, password: string | null): Promise<string | null> {
+    const { data, error } = await supabase.functions.invoke('private-password', {
+      body: { landId: id, password },
+    })
+    if (error) throw await functionError(error)
+    return (data as { setAt: string | null }).setAt
+  },
+
+  /** The open ownership transfer the land's owner has offered (or its recipient is accepting), if any. */
+  async getPendingTransfer(landId: string): Promise<LandTransfer | null> {
+    const { data, error } = await supabase
+      .from('land_transfers')
+      .select('*')
+      .eq('land_id', landId)
+      .in('status', ['pending', 'accepting'])
+      .maybeSingle()
+
+    if (error) throw new Error(error.message)
+    return data as LandTransfer | null
+  },
+
+  /** A land someone offers to the signed-in user, if any. */
+  async getIncomingTransfer(email: string): Promise<LandTransfer | null> {
+    const { data, error } = await supabase
+      .from('land_transfers')
+      .select('*')
+      .eq('to_email', email.toLowerCase())
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw new Error(error.message)
+    return data as LandTransfer | null
+  },
+
+  /**
+   * Offers the land to `email` — it changes hands once they accept. Replaces any open offer.
+   * The previous owner can stay on as an admin; the connected Stripe account is disconnected
+   * on accept unless `keepStripeAccount` hands it over too.
+   */
+  async offerTransfer(
+    landId: string,
+    email: string,
+    options: { keepPreviousOwner: boolean; keepStripeAccount: boolean },
+  ): Promise<LandTransfer> {
+    const { data, error } = await supabase.functions.invoke('transfer-ownership', {
+      body: { action: 'offer', landId, email, ...options },
+    })
+    if (error) throw await functionError(error)
+    return (data as { transfer: LandTransfer }).transfer
+  },
+
+  async cancelTransfer(landId: string): Promise<void> {
+    const { error } = await supabase.functions.invoke('transfer-ownership', {
+      body: { action: 'cancel', landId },
+    })
+    if (error) throw await functionError(error)
+  },
+
+  /** Accepts a transfer offered to the signed-in user → the id of the land they now own. */
+  async acceptTransfer(transferId: string): Promise<string> {
+    const { data, error } = await supabase.functions.invoke('transfer-ownership', {
+      body: { action: 'accept', transferId },
+    })
+    if (error) throw await functionError(error)
+    return (data as { landId: string }).landId
+  },
+
+  async declineTransfer(transferId: string): Promise<void> {
+    const { error } = await supabase.functions.invoke('transfer-ownership', {
+      body: { action: 'decline', transferId },
+    })
+    if (error) throw await functionError(error)
   },
 
   async deleteLand(id: string): Promise<void> {
+    // Take the page off the edge while the row (and its handle) still exists — if there is one.
+    // A failed cleanup is logged rather than keeping the owner from deleting their land.
+    const { data: row } = await supabase
+      .from('lands')
+      .select('is_published, published_handle')
+      .eq('id', id)
+      .maybeSingle()
+    if (row?.is_published || row?.published_handle) {
+      await publishService.unpublish(id).catch((e) => {
+        console.error('[publish] Failed to take down the deleted land:', e)
+      })
+    }
     const { error } = await supabase.from('lands').delete().eq('id', id)
     if (error) throw new Error(error.message)
   },
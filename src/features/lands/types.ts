@@ -20,6 +20,7 @@ export interface Land {
   stripe_account_name: string | null
   stripe_customer_id: string | null
   stripe_subscription_id: string | null
+  currency: string // stores' currency, ISO 4217 lower-case — set through the store-currency function
   custom_domain: string | null
   custom_domain_status: 'pending' | 'active' | 'error' | null
   campaign_integration: CampaignIntegration | null
@@ -27,9 +28,34 @@ export interface Land {
   meta_description?: string | null
   og_image?: string | null
   is_published: boolean
+  published_handle: string | null // handle the live page is served under; null when offline
   is_private: boolean
-  private_password: string | null
+  private_password_set_at: string | null // the password itself is only stored hashed — set through the private-password function
   purpose?: string
   created_at: string
   updated_at: string
+  revision: number // bumped by the database on every content change; saves check it
+}
+
+/** An offer to hand a land to another account, made through the `transfer-ownership` edge function. */
+export interface LandTransfer {
+  id: string
+  land_id: string
+  land_title: string
+  from_email: string
+  to_email: string
+  keep_previous_owner: boolean // stays on as an admin
+  keep_stripe_account: boolean // the connected account goes with the land
+  status: 'pending' | 'accepting' | 'accepted' | 'declined' | 'cancelled'
+  created_at: string
+}
+
+/** A past publish recorded by the `publish` edge function (html is fetched separately). */
+export interface LandVersion {
+  id: string
+  land_id: string
+  version: string
+  published_by_email: string | null
+  restored_from: string | null
+  created_at: string
 }
@@ -104,8 +104,9 @@ export function useLandCreator() {
       const purposeOpt = PURPOSE_OPTIONS.find(p => p.id === params.purposeId)!
       const land = await landService.createLand({ title: params.title, handle: params.handle })
       const sections = buildSections(purposeOpt.sections, land.id, params.title, params.purposeId)
-      await landService.save(land.id, { sections, theme: params.theme })
-      landStore.addLand({ ...land, sections, theme: params.theme, purpose: params.purposeId })
+      const saved = await landService.save(land.id, { sections, theme: params.theme }, land.revision)
+      if (saved.conflict || saved.forbidden) throw new Error('Failed to set up the new land')
+      landStore.addLand({ ...land, sections, theme: params.theme, purpose: params.purposeId, revision: saved.revision })
       return land
     } catch (e) {
       error.value = (e as Error).message
@@ -0,0 +1,38 @@
+import { supabase } from '@/shared/lib/supabase'
+import type { DownloadPage } from '@/features/plan/types'
+
+// The `download` edge function answers non-2xx with `{ error }` — surface that message
+async function invoke<T>(body: Record<string, string>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('download', { body })
+  if (error) {
+    let message = error.message
+    try {
+      const body = await (error as { context?: Response }).context?.json()
+      if (body?.error) message = body.error
+    } catch { /* ignore */ }
+    throw new Error(message)
+  }
+  return data as T
+}
+
+export const downloadsService = {
+  /** Download page URL for a paid Checkout session, or null until the order is recorded. */
+  async findPage(sessionId: string): Promise<string | null> {
+    try {
+      const { url } = await invoke<{ url: string }>({ sessionId })
+      return url
+    } catch {
+      return null
+    }
+  },
+
+  async get(token: string): Promise<DownloadPage> {
+    return invoke<DownloadPage>({ token })
+  },
+
+  /** Counts one download and returns a short-lived signed link to the file. */
+  async claim(token: string, downloadId: string): Promise<string> {
+    const { url } = await invoke<{ url: string }>({ token, downloadId })
+    return url
+  },
+}
@@ -47,3 +47,16 @@ export const PLAN_DETAILS: Record<LandPlan, PlanDetails> = {
     max_items_per_collection: -1,
   },
 }
+
+/** A purchased file on the buyer's download page. */
+export interface DownloadItem {
+  id: string
+  title: string
+  remaining: number // downloads left
+  expires_at: string
+}
+
+export interface DownloadPage {
+  title: string | null // the land the order came from
+  items: DownloadItem[]
+}
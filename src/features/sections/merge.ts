@@ -0,0 +1,131 @@
+import type { Section } from '@/features/sections/types'
+import type { LandTheme } from '@/features/theme/types'
+
+// Three-way merge of the editor's draft when someone else saved first: `base` is the land as
+// this editor last loaded or saved it, `mine` the local draft, `theirs` what's saved now.
+// Whatever only one side changed is taken from that side — object keys one by one, and
+// arrays of `{ id }` (sections, items, collections, variants) entry by entry, so a
+// collaborator's edit to one item and a sale's stock change to another both survive. A
+// section both sides changed in the same place is a conflict for the owner to settle.
+
+export interface Draft {
+  sections: Section[]
+  theme: LandTheme
+  title: string
+  handle: string
+}
+
+export interface SectionConflict {
+  id: string
+  mine: Section | null   // null: deleted here
+  theirs: Section | null // null: deleted by them
+}
+
+const CONFLICT = Symbol('conflict')
+
+type Plain = Record<string, unknown>
+
+function isPlain(value: unknown): value is Plain {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function hasIds(value: unknown): value is { id: string }[] {
+  return Array.isArray(value) && value.every((v) => isPlain(v) && typeof v.id === 'string')
+}
+
+// Key order doesn't count (jsonb reorders keys) and a missing key equals `undefined`
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isEqual(v, b[i]))
+  }
+  if (isPlain(a) && isPlain(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+    return [...keys].every((k) => isEqual(a[k], b[k]))
+  }
+  return false
+}
+
+function mergeById(base: { id: string }[], mine: { id: string }[], theirs: { id: string }[]): unknown[] | typeof CONFLICT {
+  const byId = (list: { id: string }[]) => new Map(list.map((v) => [v.id, v]))
+  const b = byId(base), m = byId(mine), t = byId(theirs)
+  // Mine's order, then entries only they have
+  const ids = [...new Set([...m.keys(), ...t.keys(), ...b.keys()])]
+  const merged: unknown[] = []
+  for (const id of ids) {
+    const value = merge3(b.get(id), m.get(id), t.get(id))
+    if (value === CONFLICT) return CONFLICT
+    if (value !== undefined) merged.push(value)
+  }
+  return merged
+}
+
+function merge3(base: unknown, mine: unknown, theirs: unknown): unknown {
+  if (isEqual(mine, theirs)) return mine
+  if (isEqual(base, mine)) return theirs
+  if (isEqual(base, theirs)) return mine
+  // Both changed it, differently
+  if (hasIds(mine) && hasIds(theirs)) return mergeById(hasIds(base) ? base : [], mine, theirs)
+  if (isPlain(mine) && isPlain(theirs)) {
+    const b = isPlain(base) ? base : {}
+    const merged: Plain = {}
+    for (const key of new Set([...Object.keys(mine), ...Object.keys(theirs)])) {
+      const value = merge3(b[key], mine[key], theirs[key])
+      if (value === CONFLICT) return CONFLICT
+      if (value !== undefined) merged[key] = value
+    }
+    return merged
+  }
+  return CONFLICT
+}
+
+/**
+ * Merges `mine` and `theirs` against `base`. Conflicting sections are left as `mine` in the
+ * result and listed in `conflicts`; theme keys, title and handle both sides changed keep mine.
+ */
+export function mergeDraft(base: Draft, mine: Draft, theirs: Draft): { draft: Draft; conflicts: SectionConflict[] } {
+  const conflicts: SectionConflict[] = []
+  const b = new Map(base.sections.map((s) => [s.id, s]))
+  const m = new Map(mine.sections.map((s) => [s.id, s]))
+  const t = new Map(theirs.sections.map((s) => [s.id, s]))
+
+  const sections: Section[] = []
+  for (const id of new Set([...m.keys(), ...t.keys(), ...b.keys()])) {
+    const value = merge3(b.get(id), m.get(id), t.get(id))
+    if (value === CONFLICT) {
+      conflicts.push({ id, mine: m.get(id) ?? null, theirs: t.get(id) ?? null })
+      const kept = m.get(id)
+      if (kept) sections.push(kept)
+    } else if (value !== undefined) {
+      sections.push(value as Section)
+    }
+  }
+
+  const theme = { ...theirs.theme } as Plain
+  for (const key of new Set([...Object.keys(mine.theme), ...Object.keys(theirs.theme)])) {
+    const k = key as keyof LandTheme
+    const value = merge3(base.theme[k], mine.theme[k], theirs.theme[k])
+    theme[key] = value === CONFLICT ? mine.theme[k] : value
+  }
+
+  const scalar = (key: 'title' | 'handle') => {
+    const value = merge3(base[key], mine[key], theirs[key])
+    return (value === CONFLICT ? mine[key] : value) as string
+  }
+
+  return {
+    draft: { sections, theme: theme as unknown as LandTheme, title: scalar('title'), handle: scalar('handle') },
+    conflicts,
+  }
+}
+
+/** Applies the owner's picks ('mine' or 'theirs' per conflicting section) to a merged draft. */
+export function resolveConflicts(draft: Draft, conflicts: SectionConflict[], picks: Record<string, 'mine' | 'theirs'>): Draft {
+  let sections = draft.sections
+  for (const conflict of conflicts) {
+    if (picks[conflict.id] !== 'theirs') continue
+    sections = sections.filter((s) => s.id !== conflict.id)
+    if (conflict.theirs) sections = [...sections, conflict.theirs]
+  }
+  return { ...draft, sections }
+}
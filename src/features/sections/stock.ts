@@ -0,0 +1,37 @@
+import type { StoreItem, StoreVariant, StoreVariantOption } from '@/features/sections/types/store'
+
+// Stock rules for store items, matching what the published page and stripe-checkout enforce.
+// Mirrors supabase/functions/publish/stock.ts — keep them in sync.
+
+/** Variants the buyer has to choose from (empty option lists are ignored). */
+export function choosableVariants(item: StoreItem): StoreVariant[] {
+  return (item.variants ?? []).filter((v) => v.options.length > 0)
+}
+
+export function isOptionSoldOut(item: StoreItem, option: StoreVariantOption): boolean {
+  return !!item.track_inventory && option.inventory <= 0
+}
+
+/** A tracked item with no stock left — or, with variants, a variant with no option left. */
+export function isSoldOut(item: StoreItem): boolean {
+  if (!item.track_inventory) return false
+  const variants = choosableVariants(item)
+  if (!variants.length) return item.inventory <= 0
+  return variants.some((v) => v.options.every((o) => isOptionSoldOut(item, o)))
+}
+
+/** First option still in stock for each variant — what the pickers show before a choice. */
+export function defaultSelection(item: StoreItem): Record<string, string> {
+  return Object.fromEntries(choosableVariants(item).map((v) => [
+    v.id,
+    (v.options.find((o) => !isOptionSoldOut(item, o)) ?? v.options[0]!).value,
+  ]))
+}
+
+/** "Size: M, Colour: Red" — how a selection reads in the cart and on the order. */
+export function variantLabel(item: StoreItem, selection: Record<string, string>): string | null {
+  const parts = choosableVariants(item)
+    .filter((v) => selection[v.id])
+    .map((v) => `${v.name || 'Option'}: ${selection[v.id]}`)
+  return parts.length ? parts.join(', ') : null
+}
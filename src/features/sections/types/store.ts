@@ -20,7 +20,9 @@ export interface StoreItem {
   product_type: 'physical' | 'digital'
   variants: StoreVariant[]
   inventory: number
-  file_url: string
+  track_inventory?: boolean // stock counts only apply when set
+  file_url: string // digital items uploaded before private storage (public link)
+  file_path?: string // digital items: object in the private `downloads` bucket
   content: string
   position: string
   created_at: string
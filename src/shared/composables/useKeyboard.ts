@@ -1,9 +1,10 @@
 import { onMounted, onUnmounted } from 'vue'
 import { useEditorStore } from '@/features/editor/stores/editor'
-
+import { useEditorHistory } from '@/features/editor/composables/useEditorHistory'
 
 export function useKeyboardShortcuts() {
   const editor = useEditorStore()
+  const history = useEditorHistory()
 
   function handler(e: KeyboardEvent) {
     // Escape: deselect section → exit edit mode
@@ -24,6 +25,22 @@ export function useKeyboardShortcuts() {
         editor.enterEditMode()
       }
     }
+
+    // Cmd/Ctrl+Z: undo, Shift+Cmd/Ctrl+Z (or Ctrl+Y): redo. Text fields keep their own undo
+    // while focused; their edits join the history as one step per burst of typing.
+    if (editor.isEditMode && (e.metaKey || e.ctrlKey) && !isEditable(e.target)) {
+      const key = e.key.toLowerCase()
+      if (key === 'z' || (key === 'y' && e.ctrlKey)) {
+        e.preventDefault()
+        if (key === 'y' || e.shiftKey) history.redo()
+        else history.undo()
+      }
+    }
+  }
+
+  function isEditable(target: EventTarget | null): boolean {
+    const el = target as HTMLElement | null
+    return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName))
   }
 
   onMounted(() => document.addEventListener('keydown', handler))
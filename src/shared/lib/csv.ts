@@ -0,0 +1,22 @@
+/**
+ * Build a CSV document (RFC 4180) from a header row and data rows. Cells starting with
+ * `=`, `+`, `-` or `@` are prefixed with `'` so spreadsheets don't run them as formulas.
+ */
+export function toCsv(header: string[], rows: (string | number | null | undefined)[][]): string {
+  const cell = (value: string | number | null | undefined) => {
+    let s = value == null ? '' : String(value)
+    if (/^[=+\-@]/.test(s)) s = `'${s}`
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+  }
+  return [header, ...rows].map((row) => row.map(cell).join(',')).join('\r\n')
+}
+
+/** Save `csv` as a file through a temporary download link. */
+export function downloadCsv(filename: string, csv: string): void {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,29 @@
+// Price formatting for the land's store currency. Mirrors supabase/functions/publish/currency.ts
+// — keep them in sync.
+
+const ZERO_DECIMAL = new Set([
+  'bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf',
+])
+
+const currencyNames = new Intl.DisplayNames(['en'], { type: 'currency' })
+
+/** "$12.50", "€12.50", "CA$12.50" — a price in major units, as items store it. */
+export function formatPrice(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en', { style: 'currency', currency: currency.toUpperCase() }).format(amount)
+}
+
+/** Minor units as Stripe reports them → major units. */
+export function toMajorUnits(amount: number, currency: string): number {
+  return ZERO_DECIMAL.has(currency.toLowerCase()) ? amount : amount / 100
+}
+
+/** Same as formatPrice, for an amount in minor units (orders). */
+export function formatMinorUnits(amount: number, currency: string): string {
+  return formatPrice(toMajorUnits(amount, currency), currency)
+}
+
+/** "EUR — Euro" */
+export function currencyLabel(currency: string): string {
+  const code = currency.toUpperCase()
+  return `${code} — ${currencyNames.of(code) ?? code}`
+}
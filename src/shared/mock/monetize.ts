@@ -1,36 +0,0 @@
-export const monetizeStats = {
-  subscribers: 47,
-  revenueMonthly: 423,
-}
-
-export const monetizeCollections = [
-  {
-    id: 'col-1',
-    name: 'Studio Access',
-    price: 9,
-    billing: 'monthly',
-    subscribers: 28,
-  },
-  {
-    id: 'col-2',
-    name: 'Workshop Series',
-    price: 19,
-    billing: 'monthly',
-    subscribers: 12,
-  },
-  {
-    id: 'col-3',
-    name: 'Full Library',
-    price: 29,
-    billing: 'monthly',
-    subscribers: 7,
-  },
-]
-
-export const recentSubscribers = [
-  { name: 'Sophie M.', email: 'sophie@example.com', plan: 'Studio Access', since: 'Mar 12' },
-  { name: 'James R.', email: 'james@example.com', plan: 'Full Library', since: 'Mar 10' },
-  { name: 'Clara B.', email: 'clara@example.com', plan: 'Studio Access', since: 'Mar 8' },
-  { name: 'Tom K.', email: 'tom@example.com', plan: 'Workshop Series', since: 'Mar 5' },
-  { name: 'Nina L.', email: 'nina@example.com', plan: 'Studio Access', since: 'Mar 1' },
-]
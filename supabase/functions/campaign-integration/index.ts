@@ -0,0 +1,146 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { getCampaignCredentials, maskKey, updateCampaignCredentials, type CampaignCredentials } from '../subscribe/credentials.ts'
+import { requeueSkipped } from '../subscribe/sync.ts'
+import type { CampaignConfig, CampaignIntegration } from '../publish/types.ts'
+
+// Connects, edits and removes a land's campaign integration (JWT; the owner and admins —
+// `land_can(…, 'manage_integrations')`). Credentials go to Vault; the land keeps only what the
+// dashboard may show — provider, list, URL, header names and a masked key.
+//   POST { action: 'save', landId, provider, config, api_key?, headers? }  → { integration }
+//   POST { action: 'remove', landId }                                      → { removed: true }
+// A blank `api_key`, or a blank value for a header name already stored, keeps the stored one.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const KEY_PROVIDERS = ['brevo', 'flodesk', 'kit', 'loops', 'resend', 'mailchimp']
+const WEBHOOK_PROVIDERS = ['webhook', 'custom']
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+
+    // ─── Auth: user-context client — lands RLS limits it to the land's members ───
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+
+    const { data: { user }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !user) return json({ error: 'Unauthorized' }, 401)
+
+    const { action, landId, provider, config, api_key, headers } = await req.json() as {
+      action: 'save' | 'remove'
+      landId?: string
+      provider?: CampaignIntegration['provider']
+      config?: Pick<CampaignConfig, 'list_id' | 'list_name' | 'webhook_url'>
+      api_key?: string
+      headers?: { key: string; value: string }[]
+    }
+
+    if (!landId) return json({ error: 'landId is required' }, 400)
+
+    const { data: land } = await supabaseUser
+      .from('lands')
+      .select('id, campaign_integration')
+      .eq('id', landId)
+      .maybeSingle()
+
+    if (!land) return json({ error: 'Land not found' }, 404)
+
+    const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: land.id, p_action: 'manage_integrations' })
+    if (!allowed) return json({ error: 'Forbidden' }, 403)
+
+    // ─── Admin client: credentials are the service role's only ───
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+    // ─── REMOVE ───
+    if (action === 'remove') {
+      await updateCampaignCredentials(supabaseAdmin, land.id, null)
+      const { error } = await supabaseAdmin.from('lands').update({ campaign_integration: null }).eq('id', land.id)
+      if (error) throw new Error(error.message)
+      return json({ removed: true })
+    }
+
+    // ─── SAVE ───
+    if (action === 'save') {
+      if (!provider || ![...KEY_PROVIDERS, ...WEBHOOK_PROVIDERS].includes(provider)) {
+        return json({ error: 'Unsupported provider' }, 400)
+      }
+
+      const existing = land.campaign_integration as CampaignIntegration | null
+      const stored: CampaignCredentials = existing?.provider === provider
+        ? await getCampaignCredentials(supabaseAdmin, land.id)
+        : {}
+
+      const next: CampaignConfig = {
+        list_id: config?.list_id || undefined,
+        list_name: config?.list_name || undefined,
+      }
+      const credentials: { [K in keyof CampaignCredentials]: CampaignCredentials[K] | null } = {
+        api_key: null,
+        headers: null,
+        signing_secret: null,
+      }
+
+      if (KEY_PROVIDERS.includes(provider)) {
+        const key = api_key?.trim() || stored.api_key
+        if (!key) return json({ error: 'Enter an API key' }, 400)
+        credentials.api_key = key
+        next.api_key_hint = maskKey(key)
+      } else {
+        const url = config?.webhook_url?.trim() ?? ''
+        if (!/^https?:\/\/\S+$/.test(url)) return json({ error: 'Enter a valid endpoint URL' }, 400)
+        next.webhook_url = url
+
+        if (provider === 'custom') {
+          const values: Record<string, string> = {}
+          for (const { key, value } of headers ?? []) {
+            const name = key?.trim()
+            const headerValue = value?.trim() || stored.headers?.[name]
+            if (name && headerValue) values[name] = headerValue
+          }
+          if (Object.keys(values).length) {
+            credentials.headers = values
+            next.header_names = Object.keys(values)
+          }
+        }
+
+        // Switching between webhook and custom keeps signing with the same secret
+        if (existing && WEBHOOK_PROVIDERS.includes(existing.provider)) {
+          delete credentials.signing_secret
+          next.signing_secret_created_at = existing.config.signing_secret_created_at
+        }
+      }
+
+      await updateCampaignCredentials(supabaseAdmin, land.id, credentials)
+
+      const integration: CampaignIntegration = { provider, config: JSON.parse(JSON.stringify(next)) }
+      const { error } = await supabaseAdmin.from('lands').update({ campaign_integration: integration }).eq('id', land.id)
+      if (error) throw new Error(error.message)
+
+      // Signups from while nothing was connected go out with the next sync run
+      await requeueSkipped(supabaseAdmin, land.id)
+
+      return json({ integration })
+    }
+
+    return json({ error: 'Unknown action' }, 400)
+  } catch (err) {
+    console.error('Campaign integration error:', err)
+    return json({ error: 'Internal error' }, 500)
+  }
+})
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
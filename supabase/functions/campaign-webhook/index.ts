@@ -0,0 +1,129 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { deliverWebhook, generateSigningSecret, type WebhookPayload } from '../subscribe/webhook.ts'
+import { resolveIntegration, updateCampaignCredentials } from '../subscribe/credentials.ts'
+import type { CampaignIntegration } from '../publish/types.ts'
+
+// Owner side of webhook campaign integrations (JWT; RLS on the caller's client decides
+// which lands and deliveries they can see, `land_can(…, 'manage_integrations')` whether
+// they can act on them):
+//   POST { action: 'rotate-secret', landId }  → { secret, createdAt } — shown once, never readable again
+//   POST { action: 'replay', deliveryId }     → { delivered: true }, or 502 with why the endpoint refused
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const WEBHOOK_PROVIDERS = ['webhook', 'custom']
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+
+    // ─── Auth: user-context client — lands and webhook_deliveries RLS limit it to the land's members ───
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+
+    const { data: { user }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !user) return json({ error: 'Unauthorized' }, 401)
+
+    const { action, landId, deliveryId } = await req.json() as {
+      action: 'rotate-secret' | 'replay'
+      landId?: string
+      deliveryId?: string
+    }
+
+    // ─── Admin client: credentials and webhook_deliveries are the service role's only ───
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+    // ─── ROTATE SECRET ───
+    if (action === 'rotate-secret') {
+      if (!landId) return json({ error: 'landId is required' }, 400)
+
+      const { data: land } = await supabaseUser
+        .from('lands')
+        .select('id, campaign_integration')
+        .eq('id', landId)
+        .maybeSingle()
+
+      if (!land) return json({ error: 'Land not found' }, 404)
+      const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: land.id, p_action: 'manage_integrations' })
+      if (!allowed) return json({ error: 'Forbidden' }, 403)
+
+      const integration = land.campaign_integration as CampaignIntegration | null
+      if (!integration || !WEBHOOK_PROVIDERS.includes(integration.provider)) {
+        return json({ error: 'Connect a webhook endpoint first' }, 400)
+      }
+
+      const secret = generateSigningSecret()
+      const createdAt = new Date().toISOString()
+      await updateCampaignCredentials(supabaseAdmin, land.id, { signing_secret: secret })
+
+      // Only the date goes on the integration, so the dashboard knows deliveries are signed
+      const { error: landError } = await supabaseAdmin
+        .from('lands')
+        .update({ campaign_integration: { ...integration, config: { ...integration.config, signing_secret_created_at: createdAt } } })
+        .eq('id', land.id)
+      if (landError) throw new Error(landError.message)
+
+      return json({ secret, createdAt })
+    }
+
+    // ─── REPLAY ───
+    if (action === 'replay') {
+      if (!deliveryId) return json({ error: 'deliveryId is required' }, 400)
+
+      const { data: delivery } = await supabaseUser
+        .from('webhook_deliveries')
+        .select('id, land_id, subscriber_id, payload, lands(campaign_integration)')
+        .eq('id', deliveryId)
+        .maybeSingle()
+
+      if (!delivery) return json({ error: 'Delivery not found' }, 404)
+      const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: delivery.land_id, p_action: 'manage_integrations' })
+      if (!allowed) return json({ error: 'Forbidden' }, 403)
+
+      // Sent to the endpoint connected now, so a fixed URL picks up old failures
+      const land = delivery.lands as unknown as { campaign_integration: CampaignIntegration | null } | null
+      const integration = await resolveIntegration(supabaseAdmin, delivery.land_id, land?.campaign_integration ?? null)
+      if (!integration || !WEBHOOK_PROVIDERS.includes(integration.provider)) {
+        return json({ error: 'Connect a webhook endpoint first' }, 400)
+      }
+
+      try {
+        await deliverWebhook(supabaseAdmin, delivery.subscriber_id, delivery.payload as WebhookPayload, integration)
+      } catch (err) {
+        return json({ error: (err as Error).message }, 502)
+      }
+
+      // The subscriber made it to the provider after all
+      await supabaseAdmin.from('subscribers').update({
+        provider: integration.provider,
+        sync_status: 'synced',
+        sync_error: null,
+        next_sync_at: null,
+        synced_at: new Date().toISOString(),
+      }).eq('id', delivery.subscriber_id)
+
+      return json({ delivered: true })
+    }
+
+    return json({ error: 'Unknown action' }, 400)
+  } catch (err) {
+    console.error('Campaign webhook error:', err)
+    return json({ error: 'Internal error' }, 500)
+  }
+})
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
@@ -25,13 +25,15 @@ serve(async (req) => {
     const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
     if (authError || !caller) return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: corsHeaders })
 
+    const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: landId, p_action: 'manage_billing' })
+    if (!allowed) return new Response(JSON.stringify({ error: 'Forbidden' }), { status: 403, headers: corsHeaders })
+
     const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
 
     const { data: land } = await supabase
       .from('lands')
       .select('stripe_customer_id')
       .eq('id', landId)
-      .eq('user_id', caller.id)
       .single()
 
     if (!land?.stripe_customer_id) {
@@ -34,14 +34,16 @@ serve(async (req) => {
     const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
     if (authError || !caller) return ok({ error: 'Unauthorized' })
 
+    // Only the owner pays for the land
+    const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: landId, p_action: 'manage_billing' })
+    if (!allowed) return ok({ error: 'Forbidden' })
+
     const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
 
-    // Get the land — must belong to the calling user
     const { data: land, error: landError } = await supabase
       .from('lands')
       .select('id, plan')
       .eq('id', landId)
-      .eq('user_id', caller.id)
       .single()
 
     if (landError || !land) return ok({ error: landError?.message ?? 'Land not found' })
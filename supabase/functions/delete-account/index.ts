@@ -1,4 +1,6 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { isKVConfigured, deleteDomainMapping } from '../publish/kv.ts'
+import { removePage, removeStalePage } from '../publish/pages.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
@@ -47,7 +49,7 @@ Deno.serve(async (req) => {
     // ─── Fetch all lands owned by this user ───
     const { data: lands, error: landsError } = await supabase
       .from('lands')
-      .select('id, handle')
+      .select('id, handle, published_handle, custom_domain')
       .eq('user_id', user.id)
 
     if (landsError) {
@@ -92,6 +94,19 @@ Deno.serve(async (req) => {
       } else {
         // ─── Delete land + all related data ───
 
+        // Take the live page off the edge first so it doesn't outlive the land
+        if (isKVConfigured()) {
+          try {
+            await removePage(land.handle)
+            if (land.published_handle && land.published_handle !== land.handle) {
+              await removeStalePage(supabase, land.id, land.published_handle)
+            }
+            if (land.custom_domain) await deleteDomainMapping(land.custom_domain)
+          } catch (err) {
+            console.error('Takedown error:', err)
+          }
+        }
+
         // Delete storage files for this land
         const { data: storageFiles } = await supabase.storage
           .from('lands')
@@ -0,0 +1,82 @@
+import type { Section, StoreContent } from '../publish/types.ts'
+
+// Shared by the `download` function, stripe-connect-webhook (first delivery) and
+// resend-download (owner resends access from the orders dashboard).
+
+export const DOWNLOAD_BUCKET = 'downloads'
+export const MAX_DOWNLOADS = 5
+export const LINK_TTL_DAYS = 7
+// Signed storage URLs only need to outlive the redirect that uses them
+export const SIGNED_URL_SECONDS = 60
+
+const APP_URL = Deno.env.get('APP_URL') ?? 'https://lands.app'
+
+export interface DigitalFile {
+  item_id: string
+  title: string
+  file_path: string | null
+  file_url: string | null
+}
+
+/** Random URL-safe secret for a buyer's download page. */
+export function newDownloadToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function downloadPageUrl(token: string): string {
+  return `${APP_URL}/downloads/${token}`
+}
+
+export function linkExpiry(): string {
+  return new Date(Date.now() + LINK_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+}
+
+/** Digital items (with a file) among the purchased lines, looked up in the land's sections. */
+export function digitalFiles(sections: Section[], lines: { store_id: string | null; item_id: string | null }[]): DigitalFile[] {
+  const stores = sections.flatMap((s) => ((s.content ?? {}) as unknown as StoreContent).stores ?? [])
+  const files: DigitalFile[] = []
+  for (const line of lines) {
+    const item = stores.find((st) => st.id === line.store_id)?.items?.find((i) => i.id === line.item_id)
+    if (item?.product_type !== 'digital' || (!item.file_path && !item.file_url)) continue
+    if (files.some((f) => f.item_id === item.id)) continue
+    files.push({ item_id: item.id, title: item.title, file_path: item.file_path || null, file_url: item.file_url || null })
+  }
+  return files
+}
+
+/**
+ * Emails the buyer their download page link through Resend. Returns false (and logs) when
+ * email isn't configured or the send fails — the order and its downloads stand either way.
+ */
+export async function sendDownloadEmail(to: string, landTitle: string, token: string, titles: string[]): Promise<boolean> {
+  const apiKey = Deno.env.get('RESEND_API_KEY')
+  if (!apiKey) {
+    console.error('RESEND_API_KEY not configured — download email not sent')
+    return false
+  }
+
+  const url = downloadPageUrl(token)
+  const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+  const res = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      from: Deno.env.get('EMAIL_FROM') ?? 'Lands <orders@lands.app>',
+      to,
+      subject: `Your downloads from ${landTitle}`,
+      html: `<p>Thanks for your order from ${esc(landTitle)}.</p>
+<p>Your files: ${titles.map(esc).join(', ')}</p>
+<p><a href="${esc(url)}">Download your files</a></p>
+<p>The link works for ${LINK_TTL_DAYS} days, up to ${MAX_DOWNLOADS} downloads per file.</p>`,
+      text: `Thanks for your order from ${landTitle}.\n\nYour files: ${titles.join(', ')}\n\nDownload them here: ${url}\n\nThe link works for ${LINK_TTL_DAYS} days, up to ${MAX_DOWNLOADS} downloads per file.`,
+    }),
+  })
+
+  if (!res.ok) {
+    console.error('Download email error:', res.status, await res.text())
+    return false
+  }
+  return true
+}
@@ -0,0 +1,112 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DOWNLOAD_BUCKET, SIGNED_URL_SECONDS, downloadPageUrl } from './delivery.ts'
+
+// Buyer-facing side of digital delivery, called from the app's /downloads/:token page and
+// the published /checkout/success page (deployed without JWT verification). POST one of:
+//   { sessionId }           → { url } of the download page once the webhook has recorded the order
+//   { token }               → { title, items } — the order's files and what's left of each allowance
+//   { token, downloadId }   → { url } — a short-lived signed link, counting one download
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { sessionId, token, downloadId } = await req.json() as {
+      sessionId?: string
+      token?: string
+      downloadId?: string
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    )
+
+    // ─── Success page: find the download page for a just-paid session ───
+    if (sessionId) {
+      const { data: order } = await supabase
+        .from('orders')
+        .select('download_token')
+        .eq('stripe_session_id', sessionId)
+        .maybeSingle()
+
+      if (!order?.download_token) return json({ error: 'No downloads for this session' }, 404)
+      return json({ url: downloadPageUrl(order.download_token) })
+    }
+
+    if (!token) return json({ error: 'token is required' }, 400)
+
+    // ─── Single file: count it and hand out a signed link ───
+    if (downloadId) {
+      // claim_download takes a uuid; anything else would fail the cast and look like a 500
+      if (typeof downloadId !== 'string' || !UUID_RE.test(downloadId)) {
+        return json({ error: 'Download not found' }, 400)
+      }
+
+      const { data: claimed, error } = await supabase.rpc('claim_download', {
+        p_token: token,
+        p_download_id: downloadId,
+      })
+      if (error) throw new Error(error.message)
+
+      const file = (claimed ?? [])[0] as { file_path: string | null; file_url: string | null } | undefined
+      if (!file) return json({ error: 'This link has expired or reached its download limit' }, 410)
+
+      if (!file.file_path) return json({ url: file.file_url })
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from(DOWNLOAD_BUCKET)
+        .createSignedUrl(file.file_path, SIGNED_URL_SECONDS, { download: file.file_path.split('/').pop() })
+      if (signError || !signed) throw new Error(signError?.message ?? 'Could not sign download')
+
+      return json({ url: signed.signedUrl })
+    }
+
+    // ─── Download page ───
+    const { data: order } = await supabase
+      .from('orders')
+      .select('id, lands(title, handle)')
+      .eq('download_token', token)
+      .maybeSingle()
+
+    if (!order) return json({ error: 'Download link not found' }, 404)
+
+    const { data: downloads } = await supabase
+      .from('order_downloads')
+      .select('id, title, download_count, max_downloads, expires_at')
+      .eq('order_id', order.id)
+      .order('created_at')
+
+    const land = order.lands as unknown as { title: string | null; handle: string } | null
+
+    return json({
+      title: land?.title || land?.handle || null,
+      items: (downloads ?? []).map((d) => ({
+        id: d.id,
+        title: d.title,
+        remaining: Math.max(d.max_downloads - d.download_count, 0),
+        expires_at: d.expires_at,
+      })),
+    })
+  } catch (err) {
+    console.error('Download error:', err)
+    return json({ error: 'Internal error' }, 500)
+  }
+})
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  })
+}
@@ -1,6 +1,14 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { getCampaignCredentials } from '../subscribe/credentials.ts'
+import type { CampaignIntegration } from '../publish/types.ts'
+
+// Lists, forms or audiences a provider account has, for the campaign setup picker (JWT):
+//   POST { provider, api_key }  → a key the owner just typed
+//   POST { provider, landId }   → the key already stored for the land (owner and admins), read here and never returned
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
-  'Access-Control-Allow-Headers': 'content-type, authorization',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
@@ -15,12 +23,46 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { provider, api_key } = await req.json() as { provider: string; api_key: string }
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+
+    // ─── Auth: user-context client — lands RLS limits it to the land's members ───
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+
+    const { data: { user }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !user) return json({ error: 'Unauthorized' }, 401)
 
-    if (!provider || !api_key) {
+    const { provider, api_key: typedKey, landId } = await req.json() as {
+      provider: string
+      api_key?: string
+      landId?: string
+    }
+
+    if (!provider || (!typedKey && !landId)) {
       return json({ error: 'Missing provider or api_key' }, 400)
     }
 
+    let api_key = typedKey
+    if (!api_key) {
+      const { data: land } = await supabaseUser
+        .from('lands')
+        .select('id, campaign_integration')
+        .eq('id', landId)
+        .maybeSingle()
+      if (!land) return json({ error: 'Land not found' }, 404)
+      const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: land.id, p_action: 'manage_integrations' })
+      if (!allowed) return json({ error: 'Forbidden' }, 403)
+
+      // A stored key only works for the provider it was saved with
+      const integration = land.campaign_integration as CampaignIntegration | null
+      if (integration?.provider !== provider) return json({ error: 'Enter an API key' }, 400)
+
+      const supabaseAdmin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+      api_key = (await getCampaignCredentials(supabaseAdmin, land.id)).api_key
+      if (!api_key) return json({ error: 'Enter an API key' }, 400)
+    }
+
     switch (provider) {
       case 'kit':       return await fetchKitForms(api_key)
       case 'loops':     return await fetchLoopsLists(api_key)
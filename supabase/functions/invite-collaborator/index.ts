@@ -44,11 +44,16 @@ Deno.serve(async (req) => {
         status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       })
     }
+    if (role !== 'admin' && role !== 'editor') {
+      return new Response(JSON.stringify({ error: 'role must be admin or editor' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
 
-    // ─── Verify caller owns or admins this land ───
+    // ─── Verify caller may manage this land's collaborators (owner or admin) ───
     const { data: land, error: landError } = await supabaseAdmin
       .from('lands')
-      .select('id, user_id')
+      .select('id')
       .eq('id', landId)
       .single()
 
@@ -58,22 +63,11 @@ Deno.serve(async (req) => {
       })
     }
 
-    const isOwner = land.user_id === caller.id
-
-    if (!isOwner) {
-      const { data: callerCollab } = await supabaseAdmin
-        .from('collaborators')
-        .select('role')
-        .eq('land_id', landId)
-        .eq('user_id', caller.id)
-        .eq('status', 'active')
-        .single()
-
-      if (callerCollab?.role !== 'admin') {
-        return new Response(JSON.stringify({ error: 'Forbidden' }), {
-          status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        })
-      }
+    const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: land.id, p_action: 'manage_collaborators' })
+    if (!allowed) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
     }
 
     // ─── Check for existing collaborator ───
@@ -0,0 +1,58 @@
+// Cloudflare for SaaS custom hostnames on the lands.app zone. A connected domain has to be
+// registered here before Cloudflare accepts its traffic, issues its certificate and hands
+// it to the worker. Shared by manage-domain (register/remove) and verify-domain (status).
+
+const CLOUDFLARE_API_TOKEN = Deno.env.get('CLOUDFLARE_API_TOKEN')
+const CLOUDFLARE_ZONE_ID   = Deno.env.get('CLOUDFLARE_ZONE_ID')
+
+interface CustomHostname {
+  id: string
+  hostname: string
+  status: string          // 'active' once Cloudflare sees the CNAME
+  ssl?: { status: string } // 'active' once the certificate is issued
+}
+
+function apiUrl(path = ''): string {
+  return `https://api.cloudflare.com/client/v4/zones/${CLOUDFLARE_ZONE_ID}/custom_hostnames${path}`
+}
+
+async function request(path: string, init: RequestInit = {}): Promise<unknown> {
+  const res = await fetch(apiUrl(path), {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${CLOUDFLARE_API_TOKEN!}`,
+      'Content-Type': 'application/json',
+    },
+  })
+  const data = await res.json() as { success: boolean; result: unknown; errors?: { message: string }[] }
+  if (!res.ok || !data.success) {
+    console.error('Cloudflare custom hostname error:', JSON.stringify(data.errors ?? data))
+    throw new Error(data.errors?.[0]?.message ?? 'Failed to register domain')
+  }
+  return data.result
+}
+
+async function findCustomHostname(hostname: string): Promise<CustomHostname | null> {
+  const result = await request(`?hostname=${encodeURIComponent(hostname.toLowerCase())}`) as CustomHostname[]
+  return result[0] ?? null
+}
+
+/** Registers a hostname (certificate validated over HTTP once its CNAME is in place). No-op if it exists. */
+export async function addCustomHostname(hostname: string): Promise<void> {
+  if (await findCustomHostname(hostname)) return
+  await request('', {
+    method: 'POST',
+    body: JSON.stringify({ hostname: hostname.toLowerCase(), ssl: { method: 'http', type: 'dv' } }),
+  })
+}
+
+export async function removeCustomHostname(hostname: string): Promise<void> {
+  const existing = await findCustomHostname(hostname)
+  if (existing) await request(`/${existing.id}`, { method: 'DELETE' })
+}
+
+/** True once the hostname routes to the zone and its certificate is live. */
+export async function isCustomHostnameActive(hostname: string): Promise<boolean> {
+  const existing = await findCustomHostname(hostname)
+  return existing?.status === 'active' && existing.ssl?.status === 'active'
+}
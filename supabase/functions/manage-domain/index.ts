@@ -1,4 +1,6 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { alternateHost, deleteDomainMapping } from '../publish/kv.ts'
+import { addCustomHostname, removeCustomHostname } from './hostnames.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
@@ -6,8 +8,21 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
-function vercelHeaders(token: string) {
-  return { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' }
+// The domain and its apex/www counterpart (which the worker redirects to the domain)
+function hostnamesFor(domain: string): string[] {
+  const alt = alternateHost(domain)
+  return alt ? [domain, alt] : [domain]
+}
+
+// Best effort: a hostname or KV mapping left behind must not keep a land from letting go
+// of its domain. Nothing is served for a hostname without a mapping.
+async function releaseDomain(domain: string): Promise<void> {
+  for (const hostname of hostnamesFor(domain)) {
+    await removeCustomHostname(hostname).catch((err) =>
+      console.error(`Failed to remove custom hostname ${hostname}:`, err))
+  }
+  await deleteDomainMapping(domain).catch((err) =>
+    console.error(`Failed to remove the domain mapping for ${domain}:`, err))
 }
 
 Deno.serve(async (req) => {
@@ -17,12 +32,6 @@ Deno.serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const vercelToken = Deno.env.get('VERCEL_TOKEN')!
-    const vercelProjectId = Deno.env.get('VERCEL_PROJECT_ID')!
-    const vercelTeamId = Deno.env.get('VERCEL_TEAM_ID') ?? ''
-
-    const teamQuery = vercelTeamId ? `?teamId=${vercelTeamId}` : ''
-    const vercelBase = `https://api.vercel.com/v10/projects/${vercelProjectId}/domains`
 
     // ─── Auth ───
     const authHeader = req.headers.get('Authorization') ?? ''
@@ -43,10 +52,10 @@ Deno.serve(async (req) => {
       domain?: string
     }
 
-    // ─── Verify caller owns this land ───
+    // ─── Verify caller may manage this land's domain (owner or admin) ───
     const { data: land, error: landError } = await supabase
       .from('lands')
-      .select('id, user_id, custom_domain')
+      .select('id, custom_domain')
       .eq('id', landId)
       .single()
 
@@ -55,7 +64,8 @@ Deno.serve(async (req) => {
         status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       })
     }
-    if (land.user_id !== caller.id) {
+    const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: land.id, p_action: 'manage_domains' })
+    if (!allowed) {
       return new Response(JSON.stringify({ error: 'Forbidden' }), {
         status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       })
@@ -90,25 +100,17 @@ Deno.serve(async (req) => {
         })
       }
 
-      // Remove old domain from Vercel if switching domains
+      // Release the old domain from Cloudflare and the edge if switching domains
       if (land.custom_domain && land.custom_domain !== domain) {
-        await fetch(`${vercelBase}/${encodeURIComponent(land.custom_domain)}${teamQuery}`, {
-          method: 'DELETE',
-          headers: vercelHeaders(vercelToken),
-        })
+        await releaseDomain(land.custom_domain)
       }
 
-      // Add new domain to Vercel project
-      const vercelRes = await fetch(`${vercelBase}${teamQuery}`, {
-        method: 'POST',
-        headers: vercelHeaders(vercelToken),
-        body: JSON.stringify({ name: domain }),
-      })
-      const vercelData = await vercelRes.json()
-
-      // Vercel returns error.code when domain config is invalid
-      if (vercelData.error && vercelData.error.code !== 'domain_already_in_use') {
-        return new Response(JSON.stringify({ error: vercelData.error.message ?? 'Failed to register domain' }), {
+      // Register the domain (and its apex/www counterpart) as Cloudflare custom hostnames
+      // so its traffic reaches the worker
+      try {
+        for (const hostname of hostnamesFor(domain)) await addCustomHostname(hostname)
+      } catch (err) {
+        return new Response(JSON.stringify({ error: (err as Error).message }), {
           status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         })
       }
@@ -125,12 +127,7 @@ Deno.serve(async (req) => {
 
     // ─── DISCONNECT ───
     if (action === 'disconnect') {
-      if (land.custom_domain) {
-        await fetch(`${vercelBase}/${encodeURIComponent(land.custom_domain)}${teamQuery}`, {
-          method: 'DELETE',
-          headers: vercelHeaders(vercelToken),
-        })
-      }
+      if (land.custom_domain) await releaseDomain(land.custom_domain)
 
       await supabase
         .from('lands')
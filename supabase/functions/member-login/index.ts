@@ -0,0 +1,84 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { MEMBER_STATUSES, createLoginLink, memberOrigins, sendLoginEmail } from './login.ts'
+import { errorResponse, hashedKey, ipKey, isBotSubmission, isPlausibleEmail, isRateLimited } from '../publish/guard.ts'
+
+// Passwordless sign-in for members of a land's paid collections, called from the published
+// /members page (deployed without JWT verification).
+//   POST { landId, email, origin, next? } → { sent: true }
+// Answers the same whether or not the email has a membership, so it can't be used to find
+// out who's a member; only members actually get an email.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const body = await req.json() as Record<string, unknown>
+    const { landId, email, origin, next } = body as {
+      landId?: string
+      email?: string
+      origin?: string
+      next?: string
+    }
+
+    const address = String(email ?? '').trim().toLowerCase()
+    if (!landId) return errorResponse('invalid_request', corsHeaders)
+    if (!isPlausibleEmail(address)) return errorResponse('invalid_email', corsHeaders)
+    if (await isBotSubmission(body)) return json({ sent: true })
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    )
+
+    const { data: land } = await supabase
+      .from('lands')
+      .select('id, title, handle, custom_domain, custom_domain_status')
+      .eq('id', landId)
+      .maybeSingle()
+
+    if (!land) return errorResponse('not_found', corsHeaders, { message: 'Land not found' })
+
+    // The link must open on the land's own host, where the worker sets the cookie
+    if (!origin || !memberOrigins(land).includes(origin)) return errorResponse('invalid_request', corsHeaders, { message: 'Invalid origin' })
+
+    // Per address as well as per visitor, so nobody's inbox can be flooded with links
+    if (await isRateLimited(supabase, [
+      { key: await ipKey('member-login', req), limit: 10, window: '10 minutes' },
+      { key: await hashedKey(`member-login:email:${land.id}`, address), limit: 3, window: '15 minutes' },
+    ])) {
+      return errorResponse('rate_limited', corsHeaders)
+    }
+
+    const { data: memberships } = await supabase
+      .from('memberships')
+      .select('id')
+      .eq('land_id', land.id)
+      .eq('email', address)
+      .in('status', MEMBER_STATUSES)
+      .limit(1)
+
+    if (memberships?.length) {
+      const url = await createLoginLink(supabase, land.id, address, origin, next)
+      await sendLoginEmail(address, land.title || land.handle, url)
+    }
+
+    return json({ sent: true })
+  } catch (err) {
+    console.error('Member login error:', err)
+    return errorResponse('internal', corsHeaders)
+  }
+})
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,81 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Shared by `member-login` (a member asks for a sign-in link) and stripe-connect-webhook
+// (a new member gets one with their welcome email). The link opens /members/verify on the
+// land's own host, where the worker trades it for a sign-in cookie.
+
+export const LOGIN_TTL_MINUTES = 15
+// Subscription statuses that unlock paid collections — the worker checks the same list
+export const MEMBER_STATUSES = ['active', 'trialing']
+
+/** Hosts a land's members area is served on. */
+export function memberOrigins(land: { handle: string; custom_domain: string | null; custom_domain_status: string | null }): string[] {
+  const origins = [`https://${land.handle}.lands.app`]
+  if (land.custom_domain && land.custom_domain_status === 'active') origins.push(`https://${land.custom_domain}`)
+  return origins
+}
+
+/** Stores a one-time token for `email` and returns the sign-in URL carrying it. */
+export async function createLoginLink(
+  supabase: SupabaseClient,
+  landId: string,
+  email: string,
+  origin: string,
+  next?: string,
+): Promise<string> {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  const token = btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+  // Links nobody opened pile up otherwise
+  await supabase.from('member_logins').delete().eq('land_id', landId).lt('expires_at', new Date().toISOString())
+
+  const { error } = await supabase.from('member_logins').insert({
+    token,
+    land_id: landId,
+    email,
+    expires_at: new Date(Date.now() + LOGIN_TTL_MINUTES * 60 * 1000).toISOString(),
+  })
+  if (error) throw new Error(error.message)
+
+  const url = new URL('/members/verify', origin)
+  url.searchParams.set('token', token)
+  if (next?.startsWith('/members/')) url.searchParams.set('next', next)
+  return url.toString()
+}
+
+/**
+ * Emails a sign-in link through Resend — a welcome when `collectionTitle` is given (first
+ * sign-in after joining). Returns false (and logs) when email isn't configured or the send fails.
+ */
+export async function sendLoginEmail(to: string, landTitle: string, url: string, collectionTitle?: string): Promise<boolean> {
+  const apiKey = Deno.env.get('RESEND_API_KEY')
+  if (!apiKey) {
+    console.error('RESEND_API_KEY not configured — sign-in email not sent')
+    return false
+  }
+
+  const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+  const intro = collectionTitle
+    ? `You're now a member of ${collectionTitle} on ${landTitle}.`
+    : `Here's your link to sign in to ${landTitle}.`
+
+  const res = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      from: Deno.env.get('EMAIL_FROM') ?? 'Lands <orders@lands.app>',
+      to,
+      subject: collectionTitle ? `Welcome to ${collectionTitle}` : `Sign in to ${landTitle}`,
+      html: `<p>${esc(intro)}</p>
+<p><a href="${esc(url)}">Sign in</a></p>
+<p>The link works once, for ${LOGIN_TTL_MINUTES} minutes. You can always request a new one from the members page.</p>`,
+      text: `${intro}\n\nSign in: ${url}\n\nThe link works once, for ${LOGIN_TTL_MINUTES} minutes. You can always request a new one from the members page.`,
+    }),
+  })
+
+  if (!res.ok) {
+    console.error('Sign-in email error:', res.status, await res.text())
+    return false
+  }
+  return true
+}
@@ -0,0 +1,127 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DEFAULT_CURRENCY, toMinorUnits } from '../publish/currency.ts'
+import { memberOrigins } from '../member-login/login.ts'
+import { errorResponse, ipKey, isRateLimited } from '../publish/guard.ts'
+import type { CollectionContent } from '../publish/types.ts'
+
+// Stripe Checkout for a paid monetize collection, called by the "Access content" button on
+// published pages (deployed without JWT verification).
+//   POST { landId, sectionId, collectionId, origin } → { url }
+// The subscription is created on the platform account and pays out to the land's connected
+// account, like store purchases. stripe-connect-webhook records it as a membership.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Same rates as store purchases (stripe-checkout)
+const PLATFORM_FEE_PERCENT: Record<string, number> = {
+  free: 5,
+  paid: 2,
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { landId, sectionId, collectionId, origin } = await req.json() as {
+      landId?: string
+      sectionId?: string
+      collectionId?: string
+      origin?: string
+    }
+    if (!landId || !sectionId || !collectionId) return errorResponse('invalid_request', corsHeaders, { message: 'landId, sectionId and collectionId are required' })
+
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY')
+    if (!stripeSecretKey) {
+      console.error('STRIPE_SECRET_KEY not configured')
+      return errorResponse('unavailable', corsHeaders)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    )
+
+    const { data: land } = await supabase
+      .from('lands')
+      .select('id, handle, sections, currency, stripe_account_id, plan, custom_domain, custom_domain_status')
+      .eq('id', landId)
+      .maybeSingle()
+
+    if (!land) return errorResponse('not_found', corsHeaders, { message: 'Land not found' })
+    if (!land.stripe_account_id) return errorResponse('unavailable', corsHeaders, { message: 'Memberships aren\'t available right now.' })
+
+    // Members sign in on the land's own host, so Checkout must return them there
+    if (!origin || !memberOrigins(land).includes(origin)) return errorResponse('invalid_request', corsHeaders, { message: 'Invalid origin' })
+
+    if (await isRateLimited(supabase, [
+      { key: await ipKey('membership-checkout', req), limit: 10, window: '10 minutes' },
+    ])) {
+      return errorResponse('rate_limited', corsHeaders)
+    }
+
+    // Price from the saved section content, never from the page
+    const section = (Array.isArray(land.sections) ? land.sections : []).find((s: any) => s.id === sectionId && s.type === 'monetize')
+    const collection = ((section?.content ?? {}) as CollectionContent).collections?.find((c) => c.id === collectionId)
+    if (!collection || !((collection.price ?? 0) > 0)) return errorResponse('not_found', corsHeaders, { message: 'Collection not found' })
+
+    const currency: string = land.currency ?? DEFAULT_CURRENCY
+    const billingPeriod = collection.billing_period === 'yearly' ? 'yearly' : 'monthly'
+    const feePercent = PLATFORM_FEE_PERCENT[land.plan] ?? PLATFORM_FEE_PERCENT.free
+    const title = collection.title || 'Membership'
+
+    const params = new URLSearchParams({
+      'mode': 'subscription',
+      'success_url': `${origin}/members?joined=1`,
+      'cancel_url': `${origin}/`,
+      'line_items[0][price_data][currency]': currency,
+      'line_items[0][price_data][unit_amount]': String(toMinorUnits(collection.price!, currency)),
+      'line_items[0][price_data][recurring][interval]': billingPeriod === 'yearly' ? 'year' : 'month',
+      'line_items[0][price_data][product_data][name]': title,
+      'line_items[0][quantity]': '1',
+      'subscription_data[application_fee_percent]': String(feePercent),
+      'subscription_data[transfer_data][destination]': land.stripe_account_id,
+      // Never `land_id` on the subscription: stripe-subscription-webhook treats subscriptions
+      // carrying one as the land's own plan
+      'subscription_data[metadata][collection_id]': collection.id,
+      // Read back by stripe-connect-webhook to record the membership
+      'metadata[land_id]': land.id,
+      'metadata[section_id]': sectionId,
+      'metadata[collection_id]': collection.id,
+      'metadata[collection_title]': title,
+      'metadata[billing_period]': billingPeriod,
+      'metadata[origin]': origin,
+    })
+
+    const res = await fetch('https://api.stripe.com/v1/checkout/sessions', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${stripeSecretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params,
+    })
+
+    const session = await res.json()
+    if (session.error) {
+      console.error('Stripe membership session error:', session.error.message)
+      return errorResponse('unavailable', corsHeaders, { message: 'Checkout is unavailable right now.' })
+    }
+
+    return json({ url: session.url })
+  } catch (err) {
+    console.error('Membership checkout error:', err)
+    return errorResponse('internal', corsHeaders)
+  }
+})
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,89 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { hashPassword } from '../publish/password.ts'
+
+// Sets or removes a private land's password (JWT; privacy goes with publishing — the owner
+// and admins, `land_can(…, 'publish')`). Only the PBKDF2 hash is kept, in `land_passwords`; the dashboard
+// sees `lands.private_password_set_at` and can only ever set a new password.
+//   POST { landId, password }        → { setAt }
+//   POST { landId, password: null }  → { setAt: null }
+// The live page keeps the old gate until the next publish.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Bounds the work one request can ask the KDF for
+const MAX_PASSWORD_LENGTH = 256
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+
+    // ─── Auth: user-context client — lands RLS limits it to the land's members ───
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+
+    const { data: { user }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !user) return json({ error: 'Unauthorized' }, 401)
+
+    const { landId, password } = await req.json() as { landId: string; password: string | null }
+    if (!landId) return json({ error: 'landId is required' }, 400)
+    if (password !== null && (typeof password !== 'string' || !password)) {
+      return json({ error: 'Enter a password' }, 400)
+    }
+    if (password && password.length > MAX_PASSWORD_LENGTH) {
+      return json({ error: `Use at most ${MAX_PASSWORD_LENGTH} characters` }, 400)
+    }
+
+    const { data: land } = await supabaseUser
+      .from('lands')
+      .select('id')
+      .eq('id', landId)
+      .maybeSingle()
+
+    if (!land) return json({ error: 'Land not found' }, 404)
+
+    const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: land.id, p_action: 'publish' })
+    if (!allowed) return json({ error: 'Forbidden' }, 403)
+
+    // ─── Admin client: land_passwords is the service role's only ───
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+    let setAt: string | null = null
+    if (password) {
+      setAt = new Date().toISOString()
+      const { error } = await supabaseAdmin
+        .from('land_passwords')
+        .upsert({ land_id: land.id, ...await hashPassword(password), updated_at: setAt })
+      if (error) throw new Error(error.message)
+    } else {
+      const { error } = await supabaseAdmin.from('land_passwords').delete().eq('land_id', land.id)
+      if (error) throw new Error(error.message)
+    }
+
+    const { error: landError } = await supabaseAdmin
+      .from('lands')
+      .update({ private_password_set_at: setAt })
+      .eq('id', land.id)
+    if (landError) throw new Error(landError.message)
+
+    return json({ setAt })
+  } catch (err) {
+    console.error('Private password error:', err)
+    return json({ error: 'Internal error' }, 500)
+  }
+})
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,22 @@
+// Item prices are saved in major units (12.5 = 12.50); Stripe wants minor units except for
+// its zero-decimal currencies. Mirrors src/shared/lib/currency.ts — keep them in sync.
+
+const ZERO_DECIMAL = new Set([
+  'bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf',
+])
+
+export const DEFAULT_CURRENCY = 'usd'
+
+export function isZeroDecimal(currency: string): boolean {
+  return ZERO_DECIMAL.has(currency.toLowerCase())
+}
+
+/** `amount` in major units → the integer Stripe expects for `currency`. */
+export function toMinorUnits(amount: number, currency: string): number {
+  return isZeroDecimal(currency) ? Math.round(amount) : Math.round(amount * 100)
+}
+
+/** "$12.50", "€12.50", "CA$12.50" — a price in major units, labelled for display. */
+export function formatPrice(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en', { style: 'currency', currency: currency.toUpperCase() }).format(amount)
+}
@@ -0,0 +1,171 @@
+// Abuse protection shared by the public functions published pages call (subscribe,
+// member-login, stripe-checkout, membership-checkout): rate limits, bot signals from the
+// renderer's forms, email heuristics and one error shape.
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+
+export type ErrorCode =
+  | 'invalid_request'
+  | 'invalid_email'
+  | 'not_found'
+  | 'sold_out'
+  | 'rate_limited'
+  | 'unavailable'
+  | 'internal'
+
+const ERRORS: Record<ErrorCode, { status: number; message: string }> = {
+  invalid_request: { status: 400, message: 'Invalid request' },
+  invalid_email:   { status: 400, message: 'Please enter a valid email address.' },
+  not_found:       { status: 404, message: 'Not found' },
+  sold_out:        { status: 409, message: 'Sold out' },
+  rate_limited:    { status: 429, message: 'Too many attempts. Please try again in a few minutes.' },
+  unavailable:     { status: 502, message: 'This is unavailable right now. Please try again later.' },
+  internal:        { status: 500, message: 'Something went wrong. Please try again.' },
+}
+
+/**
+ * `{ error, code }` with the code's status. `message` replaces the default text and must be
+ * safe to show a visitor — never pass exception or upstream (Stripe, provider) messages.
+ * Other `details` are added to the body as they are (e.g. `itemId`).
+ */
+export function errorResponse(
+  code: ErrorCode,
+  headers: Record<string, string>,
+  { message, ...details }: { message?: string; [key: string]: unknown } = {},
+): Response {
+  const { status, message: fallback } = ERRORS[code]
+  return new Response(JSON.stringify({ error: message ?? fallback, code, ...details }), {
+    status,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  })
+}
+
+// ─── Rate limits ─────────────────────────────────────────────────────────────
+
+export interface RateLimit {
+  key: string
+  limit: number
+  window: string // Postgres interval, e.g. '10 minutes'
+}
+
+// Structural so both supabase-js builds the functions import (esm.sh and jsr) fit
+interface RpcClient {
+  rpc(fn: string, args: Record<string, unknown>): PromiseLike<{ data: unknown; error: { message: string } | null }>
+}
+
+/**
+ * Rate-limit key for the caller's IP, hashed so addresses aren't stored. The last
+ * `x-forwarded-for` hop is the one the platform's proxy appended; earlier entries are
+ * whatever the client sent.
+ */
+export function ipKey(scope: string, req: Request): Promise<string> {
+  const hops = (req.headers.get('x-forwarded-for') ?? '').split(',').map((h) => h.trim()).filter(Boolean)
+  return hashedKey(`${scope}:ip`, hops[hops.length - 1] ?? 'unknown')
+}
+
+/** `<prefix>:<hash of value>` — for keys built from personal data (IPs, emails). */
+export async function hashedKey(prefix: string, value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  const hex = Array.from(new Uint8Array(digest).slice(0, 16), (b) => b.toString(16).padStart(2, '0')).join('')
+  return `${prefix}:${hex}`
+}
+
+/**
+ * Counts one request against every limit (fixed windows, `hit_rate_limit()`) and returns true
+ * when any of them is used up. Fails open: a database error lets the request through.
+ */
+export async function isRateLimited(supabase: RpcClient, limits: RateLimit[]): Promise<boolean> {
+  const results = await Promise.all(limits.map((l) =>
+    supabase.rpc('hit_rate_limit', { p_key: l.key, p_limit: l.limit, p_window: l.window })))
+  return results.some(({ data, error }) => {
+    if (error) console.error('Rate limit error:', error.message)
+    return data === false
+  })
+}
+
+// ─── Bot signals ─────────────────────────────────────────────────────────────
+
+/** Name of the hidden field the renderer adds to forms. People never see it; bots fill it. */
+export const HONEYPOT_FIELD = 'website'
+
+/** Worker path that hands the page a signed load time for its forms. */
+export const FORM_TOKEN_PATH = '/_lands/form-token'
+
+// Submitted sooner than this after the page loaded → not a person typing
+const MIN_FILL_MS = 1500
+// A form token older than this was saved and replayed, not used on a page someone has open
+const MAX_FORM_TOKEN_AGE_MS = 24 * 60 * 60 * 1000
+
+const FORM_TOKEN_SECRET = Deno.env.get('FORM_TOKEN_SECRET')
+
+/**
+ * True for submissions from a bot: the honeypot is filled, or `formToken` — the load time the
+ * worker signed for the page (`FORM_TOKEN_PATH`) — is missing, forged, too fresh or too old.
+ */
+export async function isBotSubmission(body: Record<string, unknown>): Promise<boolean> {
+  if (typeof body[HONEYPOT_FIELD] === 'string' && body[HONEYPOT_FIELD] !== '') return true
+  const issuedAt = await verifyFormToken(body.formToken)
+  if (issuedAt === null) return true
+  const elapsed = Date.now() - issuedAt
+  return elapsed < MIN_FILL_MS || elapsed > MAX_FORM_TOKEN_AGE_MS
+}
+
+// `<issued at ms>.<base64 HMAC>` as signed by the worker (signFormToken in worker/src/index.ts).
+// Returns the issue time, or null when the token doesn't check out.
+async function verifyFormToken(token: unknown): Promise<number | null> {
+  if (!FORM_TOKEN_SECRET) {
+    console.error('FORM_TOKEN_SECRET is not set; form submissions are refused')
+    return null
+  }
+  if (typeof token !== 'string') return null
+  const [issuedAt, sig] = token.split('.')
+  if (!/^\d+$/.test(issuedAt ?? '') || !sig) return null
+
+  const key = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(FORM_TOKEN_SECRET), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify'],
+  )
+  let signature: Uint8Array
+  try {
+    signature = Uint8Array.from(atob(sig), (c) => c.charCodeAt(0))
+  } catch {
+    return null // malformed base64
+  }
+  const valid = await crypto.subtle.verify('HMAC', key, signature, new TextEncoder().encode(`form.${issuedAt}`))
+  return valid ? Number(issuedAt) : null
+}
+
+// ─── Email and name heuristics ───────────────────────────────────────────────
+
+const LOCAL_RE = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/
+const LABEL_RE = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/
+
+// Throwaway inboxes bots sign up with
+const DISPOSABLE_DOMAINS = new Set([
+  '10minutemail.com', 'dispostable.com', 'fakeinbox.com', 'getnada.com', 'guerrillamail.com',
+  'mailinator.com', 'maildrop.cc', 'sharklasers.com', 'temp-mail.org', 'tempmail.com',
+  'throwawaymail.com', 'trashmail.com', 'yopmail.com',
+])
+
+/**
+ * Syntax checks without a DNS (MX) lookup: lengths, dot placement, hostname labels and a
+ * letter TLD. Expects a trimmed, lowercased address.
+ */
+export function isPlausibleEmail(address: string): boolean {
+  if (address.length > 254) return false
+  const at = address.lastIndexOf('@')
+  const local = address.slice(0, at)
+  const labels = address.slice(at + 1).split('.')
+  if (at < 1 || local.length > 64 || !LOCAL_RE.test(local)) return false
+  if (labels.length < 2 || !labels.every((l) => l.length <= 63 && LABEL_RE.test(l))) return false
+  const tld = labels[labels.length - 1]
+  return /^[a-z]{2,}$/.test(tld) || tld.startsWith('xn--')
+}
+
+export function isDisposableEmail(address: string): boolean {
+  return DISPOSABLE_DOMAINS.has(address.slice(address.lastIndexOf('@') + 1))
+}
+
+/** Names carrying links or markup, or far too long — how spam bots fill the name field. */
+export function isSpamName(name: string): boolean {
+  return name.length > 100 || /https?:\/\/|www\.|[<>]/i.test(name)
+}
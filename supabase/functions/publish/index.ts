@@ -1,12 +1,21 @@
-import { renderLand } from './renderer.ts'
-import type { Land } from './types.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { renderLand, renderPasswordGate, renderCheckoutPage, renderMembersPages } from './renderer.ts'
+import { isKVConfigured, putKV, deleteKV, gateKey, checkoutKey, membersKey, putDomainMapping } from './kv.ts'
+import { removeStalePage } from './pages.ts'
+import type { Land, PageMetadata, PasswordGate } from './types.ts'
 
-const CLOUDFLARE_ACCOUNT_ID = Deno.env.get('CLOUDFLARE_ACCOUNT_ID')
-const CLOUDFLARE_API_TOKEN  = Deno.env.get('CLOUDFLARE_API_TOKEN')
-const CLOUDFLARE_KV_NS_ID   = Deno.env.get('CLOUDFLARE_KV_NS_ID')
+// Only the columns the renderer needs — never trust the client's copy of the land
+const LAND_COLUMNS = 'id, user_id, handle, title, description, avatar_image, sections, theme, meta_title, meta_description, og_image, currency, is_private, custom_domain, custom_domain_status, published_handle'
+
+// Content fields recorded with each version and written back on restore.
+// Privacy, domain and billing settings are deliberately not versioned.
+const VERSIONED_FIELDS = ['title', 'description', 'avatar_image', 'sections', 'theme', 'meta_title', 'meta_description', 'og_image'] as const
+
+// Older versions beyond this are pruned after each publish
+const MAX_VERSIONS = 30
 
 const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
   'Access-Control-Allow-Headers': 'authorization, apikey, content-type, x-client-info',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
@@ -17,49 +26,236 @@ Deno.serve(async (req) => {
   }
 
   try {
-    if (!CLOUDFLARE_ACCOUNT_ID || !CLOUDFLARE_API_TOKEN || !CLOUDFLARE_KV_NS_ID) {
+    if (!isKVConfigured()) {
       return new Response(JSON.stringify({ error: 'Cloudflare env vars not configured' }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       })
     }
 
-    const { land } = await req.json() as { land: Land }
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    // ─── Auth: user-context client validates the JWT ───
+    const authHeader = req.headers.get('Authorization') ?? ''
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    })
+
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    // ─── Admin client for privileged operations ───
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // versionId: re-publish a previous version instead of rendering the current row
+    const { landId, versionId } = await req.json() as { landId: string; versionId?: string }
 
-    if (!land?.handle) {
-      return new Response(JSON.stringify({ error: 'Missing land data' }), {
+    if (!landId) {
+      return new Response(JSON.stringify({ error: 'landId is required' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       })
     }
 
-    const html = renderLand(land)
-    const version = Date.now().toString()
+    // ─── Load the land from the database ───
+    const { data: land, error: landError } = await supabase
+      .from('lands')
+      .select(LAND_COLUMNS)
+      .eq('id', landId)
+      .single()
+
+    if (landError || !land?.handle) {
+      return new Response(JSON.stringify({ error: 'Land not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    // ─── Verify the caller's role lets them publish (owner or admin) ───
+    const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: land.id, p_action: 'publish' })
+    if (!allowed) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
 
-    // Write html as plain text body; pass metadata as query param (supported by KV REST API).
-    // The worker reads the metadata cheaply to build an ETag without hashing the full body.
-    const kvUrl = `https://api.cloudflare.com/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/storage/kv/namespaces/${CLOUDFLARE_KV_NS_ID}/values/${land.handle}?metadata=${encodeURIComponent(JSON.stringify({ version }))}`
+    const current = {
+      ...land,
+      sections: Array.isArray(land.sections) ? land.sections : [],
+    } as Land
 
-    const cfRes = await fetch(kvUrl, {
-      method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${CLOUDFLARE_API_TOKEN!}`,
-        'Content-Type': 'text/html; charset=utf-8',
-      },
-      body: html,
-    })
+    // The content fields the page is rendered from; everything else comes from the current row
+    let source: Partial<Land>
+
+    if (versionId) {
+      // ─── Rollback: re-render the version's content under today's handle, currency, gate and store ───
+      // (its stored HTML would carry the handle, form endpoints and prices of the day it was published)
+      const { data: previous, error: versionError } = await supabase
+        .from('land_versions')
+        .select('id, land')
+        .eq('id', versionId)
+        .eq('land_id', landId)
+        .single()
+
+      if (versionError || !previous) {
+        return new Response(JSON.stringify({ error: 'Version not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
+      source = Object.fromEntries(
+        VERSIONED_FIELDS.map((f) => [f, (previous.land as Partial<Land>)[f] ?? null]),
+      ) as Partial<Land>
+    } else {
+      source = Object.fromEntries(VERSIONED_FIELDS.map((f) => [f, current[f] ?? null])) as Partial<Land>
+    }
+
+    const renderable = {
+      ...current,
+      ...source,
+      sections: Array.isArray(source.sections) ? source.sections : [],
+    } as Land
+    const html = renderLand(renderable)
+
+    const metadata: PageMetadata = { version: Date.now().toString(), landId: land.id }
 
-    if (!cfRes.ok) {
-      const detail = await cfRes.text()
-      console.error('Cloudflare KV error:', detail)
+    // ─── Private lands: the stored password hash goes with the page for the worker to check ───
+    let gate: PasswordGate | null = null
+    if (land.is_private) {
+      const { data } = await supabase
+        .from('land_passwords')
+        .select('salt, hash, iterations')
+        .eq('land_id', land.id)
+        .maybeSingle()
+      gate = data
+      if (!gate) {
+        return new Response(JSON.stringify({ error: 'Set a password before publishing a private land' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+    }
+
+    try {
+      if (gate) {
+        metadata.gate = gate
+        await putKV(gateKey(land.handle), renderPasswordGate(renderable))
+      } else {
+        await deleteKV(gateKey(land.handle))
+      }
+
+      // Stripe Checkout returns buyers to /checkout/success|cancel on the land's own host
+      if (html.includes('data-buy')) {
+        await putKV(checkoutKey(land.handle), renderCheckoutPage(renderable))
+      } else {
+        await deleteKV(checkoutKey(land.handle))
+      }
+
+      // Members area for monetize collections
+      const members = renderMembersPages(renderable)
+      if (members) {
+        await putKV(membersKey(land.handle), JSON.stringify(members), undefined, 'application/json')
+      } else {
+        await deleteKV(membersKey(land.handle))
+      }
+
+      // A single KV write swaps html + metadata together, so visitors never see a partial publish.
+      // The worker reads the metadata cheaply to build an ETag and check the gate.
+      await putKV(land.handle, html, metadata)
+
+      // Unpublish removes the mapping — restore it so the domain serves the page again
+      if (land.custom_domain && land.custom_domain_status === 'active') {
+        await putDomainMapping(land.custom_domain, land.handle)
+      }
+    } catch {
       return new Response(JSON.stringify({ error: 'Failed to publish to Cloudflare' }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       })
     }
 
+    // Renamed since the last publish and the takedown didn't run — the old page goes now
+    if (land.published_handle && land.published_handle !== land.handle) {
+      await removeStalePage(supabase, land.id, land.published_handle)
+        .catch((err) => console.error('Stale page removal error:', err))
+    }
+
+    // The page is live from here on. The row and the version list have to say so — if a write
+    // fails the caller gets an error and publishes again (which redoes them), rather than a
+    // success the dashboard doesn't match. Restore goes before the version so a version is
+    // only ever recorded once the row matches it.
+    const recordError = (what: string, message: string) => {
+      console.error(`${what} error:`, message)
+      return new Response(JSON.stringify({ error: 'The page is live, but the project couldn’t be updated to match. Publish again.' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const { error: statusError } = await supabase
+      .from('lands')
+      .update({ is_published: true, published_handle: land.handle })
+      .eq('id', landId)
+
+    if (statusError) return recordError('Publish status', statusError.message)
+
+    // Rolled back: bring the editable row in line with what's now live. The new revision goes
+    // back with it so the editor's next save doesn't take the restore for someone else's edit.
+    let restored: Record<string, unknown> | undefined
+    if (versionId) {
+      const { data: row, error: restoreError } = await supabase
+        .from('lands')
+        .update({ ...source, updated_at: new Date().toISOString() })
+        .eq('id', landId)
+        .select('revision')
+        .single()
+      if (restoreError) return recordError('Restore', restoreError.message)
+      restored = { ...source, revision: row.revision }
+    }
+
+    // ─── Record the version ───
+    const { data: version, error: insertError } = await supabase
+      .from('land_versions')
+      .insert({
+        land_id: landId,
+        version: metadata.version,
+        html,
+        land: source,
+        published_by: caller.id,
+        published_by_email: caller.email ?? null,
+        restored_from: versionId ?? null,
+      })
+      .select('id, version, published_by_email, restored_from, created_at')
+      .single()
+
+    if (insertError) return recordError('Version insert', insertError.message)
+
+    // Prune old versions (best-effort)
+    const { data: stale } = await supabase
+      .from('land_versions')
+      .select('id')
+      .eq('land_id', landId)
+      .order('created_at', { ascending: false })
+      .range(MAX_VERSIONS, MAX_VERSIONS + 100)
+
+    if (stale?.length) {
+      await supabase.from('land_versions').delete().in('id', stale.map((v) => v.id))
+    }
+
+    const url = land.custom_domain && land.custom_domain_status === 'active'
+      ? `https://${land.custom_domain}`
+      : `https://${land.handle}.lands.app`
+
     return new Response(
-      JSON.stringify({ url: `https://${land.handle}.lands.app` }),
+      JSON.stringify({ url, version, land: restored }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
     )
   } catch (err) {
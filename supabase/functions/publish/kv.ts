@@ -0,0 +1,96 @@
+// Thin wrapper over the Cloudflare KV REST API for the LANDS_PAGES namespace.
+// Shared by every function that writes or removes published pages.
+
+const CLOUDFLARE_ACCOUNT_ID = Deno.env.get('CLOUDFLARE_ACCOUNT_ID')
+const CLOUDFLARE_API_TOKEN  = Deno.env.get('CLOUDFLARE_API_TOKEN')
+const CLOUDFLARE_KV_NS_ID   = Deno.env.get('CLOUDFLARE_KV_NS_ID')
+
+export function isKVConfigured(): boolean {
+  return !!(CLOUDFLARE_ACCOUNT_ID && CLOUDFLARE_API_TOKEN && CLOUDFLARE_KV_NS_ID)
+}
+
+function valueUrl(key: string): string {
+  return `https://api.cloudflare.com/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/storage/kv/namespaces/${CLOUDFLARE_KV_NS_ID}/values/${encodeURIComponent(key)}`
+}
+
+export async function putKV(key: string, body: string, metadata?: Record<string, unknown>, contentType = 'text/html; charset=utf-8'): Promise<void> {
+  // Metadata is passed as a query param (supported by KV REST API) so the body stays plain text
+  const query = metadata ? `?metadata=${encodeURIComponent(JSON.stringify(metadata))}` : ''
+  const res = await fetch(`${valueUrl(key)}${query}`, {
+    method: 'PUT',
+    headers: {
+      'Authorization': `Bearer ${CLOUDFLARE_API_TOKEN!}`,
+      'Content-Type': contentType,
+    },
+    body,
+  })
+  if (!res.ok) {
+    const detail = await res.text()
+    console.error('Cloudflare KV error:', detail)
+    throw new Error(`Failed to write KV key ${key}`)
+  }
+}
+
+export async function deleteKV(key: string): Promise<void> {
+  const res = await fetch(valueUrl(key), {
+    method: 'DELETE',
+    headers: { 'Authorization': `Bearer ${CLOUDFLARE_API_TOKEN!}` },
+  })
+  // 404 means it was never written — nothing to remove
+  if (!res.ok && res.status !== 404) {
+    const detail = await res.text()
+    console.error('Cloudflare KV error:', detail)
+    throw new Error(`Failed to delete KV key ${key}`)
+  }
+}
+
+/** Key holding the themed password gate served in front of a private land. */
+export function gateKey(handle: string): string {
+  return `${handle}:gate`
+}
+
+/** Key holding the themed checkout success/cancel page for lands with a store. */
+export function checkoutKey(handle: string): string {
+  return `${handle}:checkout`
+}
+
+/** Key holding the members area (MembersPages JSON) for lands with monetize collections. */
+export function membersKey(handle: string): string {
+  return `${handle}:members`
+}
+
+// ─── Custom domains ───
+// `domain:<hostname>` → { handle } for the connected hostname, plus { handle, redirect }
+// for its apex/www counterpart so the worker can 301 to the canonical host.
+
+export interface DomainMapping {
+  handle: string
+  redirect?: string // canonical hostname to redirect to
+}
+
+function domainKey(hostname: string): string {
+  return `domain:${hostname.toLowerCase()}`
+}
+
+/** The apex/www counterpart of a domain, or null for other subdomains (app.example.com). */
+export function alternateHost(domain: string): string | null {
+  const host = domain.toLowerCase()
+  if (host.startsWith('www.')) return host.slice(4)
+  if (host.split('.').length === 2) return `www.${host}`
+  return null
+}
+
+export async function putDomainMapping(domain: string, handle: string): Promise<void> {
+  const canonical = domain.toLowerCase()
+  await putKV(domainKey(canonical), JSON.stringify({ handle } satisfies DomainMapping), undefined, 'application/json')
+  const alt = alternateHost(canonical)
+  if (alt) {
+    await putKV(domainKey(alt), JSON.stringify({ handle, redirect: canonical } satisfies DomainMapping), undefined, 'application/json')
+  }
+}
+
+export async function deleteDomainMapping(domain: string): Promise<void> {
+  await deleteKV(domainKey(domain))
+  const alt = alternateHost(domain)
+  if (alt) await deleteKV(domainKey(alt))
+}
@@ -0,0 +1,29 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { deleteKV, gateKey, checkoutKey, membersKey } from './kv.ts'
+
+// Taking a published page off the edge. Used by publish (after a rename),
+// unpublish and delete-account.
+
+/** Removes the page with its password gate, checkout page and members area. */
+export async function removePage(handle: string): Promise<void> {
+  await deleteKV(handle)
+  await deleteKV(gateKey(handle))
+  await deleteKV(checkoutKey(handle))
+  await deleteKV(membersKey(handle))
+}
+
+/**
+ * Removes the page a land left behind under a previous handle — unless another land
+ * has since claimed that handle and published to it.
+ */
+export async function removeStalePage(supabase: SupabaseClient, landId: string, handle: string): Promise<void> {
+  const { data: claimed } = await supabase
+    .from('lands')
+    .select('id')
+    .eq('published_handle', handle)
+    .neq('id', landId)
+    .limit(1)
+
+  if (claimed?.length) return
+  await removePage(handle)
+}
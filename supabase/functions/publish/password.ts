@@ -0,0 +1,37 @@
+import type { PasswordGate } from './types.ts'
+
+// PBKDF2-SHA256 hashing for private-land passwords. Hashed once when the password is set;
+// `publish` copies the stored hash into the page metadata as it is, so republishing leaves
+// the worker's access cookies (bound to the hash) valid. The worker (worker/src/index.ts)
+// re-derives with the same parameters to verify — keep ITERATIONS and the output length in
+// sync with it.
+
+const ITERATIONS = 100_000 // Cloudflare Workers cap PBKDF2 at 100k iterations
+const KEY_BITS = 256
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  )
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    KEY_BITS,
+  )
+  return new Uint8Array(bits)
+}
+
+/** A fresh hash with a random salt, stored in `land_passwords` by `private-password`. */
+export async function hashPassword(password: string): Promise<PasswordGate> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const hash = await derive(password, salt, ITERATIONS)
+  return { salt: toBase64(salt), hash: toBase64(hash), iterations: ITERATIONS }
+}
@@ -2,12 +2,25 @@ import type {
   Land, LandTheme, Section,
   HeaderContent, HeaderSettings,
   ContentMediaContent,
-  CollectionContent,
-  StoreContent,
-  CampaignContent,
+  Collection, CollectionContent, CollectionItem,
+  MembersPages,
+  StoreContent, StoreItem,
+  CampaignContent, CampaignSettings,
   FooterContent, FooterSettings,
   ContentMediaButton,
 } from './types.ts'
+import { buildPageStylesheet } from './styles.ts'
+import { choosableVariants, isOptionSoldOut, isSoldOut } from './stock.ts'
+import { DEFAULT_CURRENCY, formatPrice } from './currency.ts'
+import { FORM_TOKEN_PATH, HONEYPOT_FIELD } from './guard.ts'
+
+// Public endpoints called from published pages (deployed without JWT verification)
+const SUBSCRIBE_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/subscribe`
+const CHECKOUT_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/stripe-checkout`
+const STOCK_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/store-stock`
+const DOWNLOAD_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/download`
+const MEMBERSHIP_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/membership-checkout`
+const MEMBER_LOGIN_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/member-login`
 
 // ─── Utilities ───
 
@@ -64,8 +77,9 @@ function buildFontLinks(theme: LandTheme): string {
   <link href="https://fonts.googleapis.com/css2?${families}&display=swap" rel="stylesheet">`
 }
 
-function buildBaseStyles(theme: LandTheme): string {
+function buildBaseStyles(theme: LandTheme, body: string): string {
   return `
+<style>${buildPageStylesheet(body)}</style>
 <style>
   :root {
     --theme-main:    ${theme.color_main};
@@ -84,17 +98,7 @@ function buildBaseStyles(theme: LandTheme): string {
   }
   a { text-decoration: none; }
   * { box-sizing: border-box; }
-</style>
-<script>
-  tailwind.config = {
-    theme: {
-      extend: {
-        lineHeight: { '22': '5.5rem' },
-      }
-    }
-  }
-</script>
-<script src="https://cdn.tailwindcss.com"></script>`.trim()
+</style>`.trim()
 }
 
 // ─── Header nav (shared) ───
@@ -439,8 +443,11 @@ function renderCollection(section: Section, theme: LandTheme): string {
 
 // ─── Monetize ───
 
-function renderMonetize(section: Section, theme: LandTheme): string {
-  const c = (section.content ?? {}) as any
+// Paid collections get a join button (wired to membership-checkout by renderMembershipScript())
+// and link each item to its page under /members/, which the worker only serves to signed-in
+// members. Item content never appears on the public page.
+function renderMonetize(section: Section, theme: LandTheme, currency: string): string {
+  const c = (section.content ?? {}) as unknown as CollectionContent
   const collections = sortByPosition(c.collections ?? [])
   if (!collections.length) return ''
 
@@ -449,7 +456,24 @@ function renderMonetize(section: Section, theme: LandTheme): string {
   // Minimal / Baseline: big card with gradient
   return collections.map(col => {
     const period = col.billing_period === 'yearly' ? '/ year' : '/ month'
-    const priceLabel = col.price ? `$${(col.price as number).toFixed(2)} ${period}` : 'Free'
+    const paid = isPaidCollection(col)
+    const priceLabel = paid ? `${formatPrice(col.price!, currency)} ${period}` : 'Free'
+    const items = sortByPosition(col.items ?? [])
+    const list = items.length
+      ? `
+  <ul class="max-w-5xl mx-auto flex flex-col divide-y" style="border-color: color-mix(in srgb, var(--theme-main) 15%, transparent)">
+    ${items.map(item => `
+    <li>
+      <a href="/members/${esc(item.id)}" class="flex items-center justify-between gap-4 py-4">
+        <div class="min-w-0">
+          <h3 class="text-base font-medium" style="color: var(--theme-main)">${esc(item.title || 'Untitled')}</h3>
+          ${item.description ? `<p class="text-xs mt-1" style="color: var(--theme-main); opacity: 0.5">${esc(item.description)}</p>` : ''}
+        </div>
+        <span class="shrink-0 text-xs font-medium" style="color: var(--theme-accent)">${paid ? 'Members' : 'Open'}</span>
+      </a>
+    </li>`).join('')}
+  </ul>`
+      : ''
     return `
 <div class="py-4 px-6">
   <div class="max-w-5xl mx-auto my-16 rounded-2xl overflow-hidden relative" style="min-height: 600px; background-color: color-mix(in srgb, var(--theme-accent) 50%, transparent)">
@@ -462,16 +486,81 @@ function renderMonetize(section: Section, theme: LandTheme): string {
         ${col.description ? `<p class="text-sm text-white leading-relaxed max-w-md" style="opacity: 0.7">${esc(col.description)}</p>` : ''}
         <p class="text-lg font-semibold text-white mt-1">${esc(priceLabel)}</p>
       </div>
-      <button class="shrink-0 px-6 py-3 rounded-xl text-sm font-semibold whitespace-nowrap" style="background: white; color: var(--theme-accent)">Access content</button>
+      ${paid ? `
+      <div class="shrink-0 flex flex-col items-end gap-2">
+        <button type="button" data-join data-section="${esc(section.id)}" data-collection="${esc(col.id)}" class="px-6 py-3 rounded-xl text-sm font-semibold whitespace-nowrap disabled:opacity-50" style="background: white; color: var(--theme-accent)">Access content</button>
+        <p data-join-error hidden class="text-xs text-white" style="opacity: 0.8"></p>
+        <a href="/members" class="text-xs text-white underline" style="opacity: 0.7">Already a member? Sign in</a>
+      </div>` : ''}
     </div>
-  </div>
+  </div>${list}
 </div>`
   }).join('')
 }
 
+function isPaidCollection(col: Collection): boolean {
+  return (col.price ?? 0) > 0
+}
+
+// Sends the visitor to Stripe Checkout for the collection's subscription. Stripe brings
+// them back to /members?joined=1 while the webhook emails their sign-in link.
+function renderMembershipScript(landId: string): string {
+  return `<script>
+document.querySelectorAll('[data-join]').forEach(function (button) {
+  var error = button.parentNode.querySelector('[data-join-error]');
+  button.addEventListener('click', function () {
+    button.disabled = true;
+    error.hidden = true;
+    fetch(${JSON.stringify(MEMBERSHIP_URL)}, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        landId: ${JSON.stringify(landId)},
+        sectionId: button.dataset.section,
+        collectionId: button.dataset.collection,
+        origin: location.origin
+      })
+    })
+      .then(function (res) { return res.json(); })
+      .then(function (data) {
+        if (!data.url) throw new Error(data.error || 'Checkout failed');
+        location.href = data.url;
+      })
+      .catch(function (e) {
+        error.textContent = e.message;
+        error.hidden = false;
+        button.disabled = false;
+      });
+  });
+});
+</script>`
+}
+
 // ─── Store ───
 
-function renderStore(section: Section, theme: LandTheme): string {
+// Add-to-cart buttons carry the ids stripe-checkout needs plus the title and price the cart
+// drawer shows; renderCartScript() wires them up. Sold-out state is rendered as of publish
+// and refreshed from store-stock on load.
+function buyAttrs(section: Section, store: { id: string }, item: StoreItem): string {
+  return `type="button" data-buy data-section="${esc(section.id)}" data-store="${esc(store.id)}" data-item="${esc(item.id)}" data-title="${esc(item.title)}" data-price="${item.price}"${isSoldOut(item) ? ' disabled' : ''}`
+}
+
+function buyLabel(item: StoreItem): string {
+  return isSoldOut(item) ? 'Sold out' : 'Add to cart'
+}
+
+// One <select> per variant, read by the cart script from the item's <li>
+function renderVariantPickers(item: StoreItem): string {
+  return choosableVariants(item).map(v => `
+          <select data-variant="${esc(v.id)}" aria-label="${esc(v.name || 'Option')}" class="w-full mt-2 px-2 py-1.5 text-sm rounded-lg" style="color: var(--theme-main); background: transparent; border: 1px solid color-mix(in srgb, var(--theme-main) 25%, transparent)">
+            ${v.options.map(o => {
+              const soldOut = isOptionSoldOut(item, o)
+              return `<option value="${esc(o.value)}"${soldOut ? ' disabled' : ''}>${esc(o.value)}${soldOut ? ' — Sold out' : ''}</option>`
+            }).join('')}
+          </select>`).join('')
+}
+
+function renderStore(section: Section, theme: LandTheme, currency: string): string {
   const c = (section.content ?? {}) as unknown as StoreContent
   const stores = sortByPosition(c.stores ?? [])
   if (!stores.length) return ''
@@ -489,9 +578,10 @@ function renderStore(section: Section, theme: LandTheme): string {
             </div>
             <div class="flex-1 min-w-0">
               <h3 class="text-base font-medium" style="color: var(--theme-main)">${esc(item.title)}</h3>
-              ${item.price > 0 ? `<p class="text-sm font-semibold mt-0.5" style="color: var(--theme-main)">$${item.price.toFixed(2)}</p>` : ''}
+              ${item.price > 0 ? `<p class="text-sm font-semibold mt-0.5" style="color: var(--theme-main)">${esc(formatPrice(item.price, currency))}</p>` : ''}
+              ${item.price > 0 ? renderVariantPickers(item) : ''}
             </div>
-            ${item.price > 0 ? `<button class="shrink-0 px-4 py-2 text-sm font-medium" style="color: var(--theme-main); border: 1.5px solid var(--theme-main)">Buy</button>` : ''}
+            ${item.price > 0 ? `<div class="shrink-0 text-right"><button ${buyAttrs(section, store, item)} class="px-4 py-2 text-sm font-medium disabled:opacity-50" style="color: var(--theme-main); border: 1.5px solid var(--theme-main)">${buyLabel(item)}</button></div>` : ''}
           </li>`).join('')}</ul>`
         : `<ul class="grid grid-cols-3 gap-8">${items.map(item => `
           <li class="flex flex-col gap-2 pb-4">
@@ -500,8 +590,8 @@ function renderStore(section: Section, theme: LandTheme): string {
             </div>
             <div>
               <h3 class="text-2xl font-medium" style="color: var(--theme-main)">${esc(item.title)}</h3>
-              ${item.price > 0 ? `<p class="text-sm mt-0.5" style="color: var(--theme-main); opacity: 0.5">$${item.price.toFixed(2)}</p>` : ''}
-              ${item.price > 0 ? `<button class="mt-3 px-4 py-2 text-sm font-medium" style="color: var(--theme-main); border: 1.5px solid var(--theme-main)">Buy</button>` : ''}
+              ${item.price > 0 ? `<p class="text-sm mt-0.5" style="color: var(--theme-main); opacity: 0.5">${esc(formatPrice(item.price, currency))}</p>` : ''}
+              ${item.price > 0 ? `${renderVariantPickers(item)}<button ${buyAttrs(section, store, item)} class="mt-3 px-4 py-2 text-sm font-medium disabled:opacity-50" style="color: var(--theme-main); border: 1.5px solid var(--theme-main)">${buyLabel(item)}</button>` : ''}
             </div>
           </li>`).join('')}</ul>`
       return `
@@ -526,10 +616,10 @@ function renderStore(section: Section, theme: LandTheme): string {
         <div class="flex flex-col gap-4">
           <div class="flex justify-between items-start">
             <h3 class="text-2xl font-semibold" style="color: var(--theme-main)">${esc(item.title)}</h3>
-            ${item.price > 0 ? `<p class="text-sm font-medium" style="color: var(--theme-main)">$${item.price.toFixed(2)}</p>` : ''}
+            ${item.price > 0 ? `<p class="text-sm font-medium" style="color: var(--theme-main)">${esc(formatPrice(item.price, currency))}</p>` : ''}
           </div>
           ${item.description ? `<p class="text-sm" style="color: var(--theme-main); opacity: 0.5">${esc(item.description)}</p>` : ''}
-          ${item.price > 0 ? `<button class="mt-2 py-2 text-sm font-medium rounded-lg text-gray-100" style="background: var(--theme-accent)">Buy</button>` : ''}
+          ${item.price > 0 ? `<div class="flex flex-col mt-2">${renderVariantPickers(item)}<button ${buyAttrs(section, store, item)} class="mt-2 py-2 text-sm font-medium rounded-lg text-gray-100 disabled:opacity-50" style="background: var(--theme-accent)">${buyLabel(item)}</button></div>` : ''}
         </div>
       </li>`).join('')
     return `
@@ -543,24 +633,73 @@ function renderStore(section: Section, theme: LandTheme): string {
   }).join('')
 }
 
+// Floating cart button and drawer, added once to any page with a store. Everything starts
+// hidden; renderCartScript() fills the lines from the <template> and shows the button once
+// the cart has something in it.
+function renderCart(theme: LandTheme): string {
+  const tc = getTextColorForAccent(theme)
+  const line = 'border: 1px solid color-mix(in srgb, var(--theme-main) 25%, transparent)'
+  return `
+<button type="button" data-cart-toggle hidden class="fixed bottom-6 right-6 z-50 flex items-center gap-2 px-4 py-3 text-sm font-medium rounded-full shadow-lg" style="background: var(--theme-accent); color: ${tc}">Cart <span data-cart-count>0</span></button>
+<div data-cart hidden class="fixed inset-0 z-50">
+  <div data-cart-close class="absolute inset-0" style="background: rgba(0, 0, 0, 0.3)"></div>
+  <aside class="absolute top-0 right-0 h-full w-full max-w-sm flex flex-col gap-4 p-6 overflow-y-auto" style="background: var(--theme-surface); color: var(--theme-main)">
+    <div class="flex items-center justify-between">
+      <h2 class="text-lg font-semibold">Your cart</h2>
+      <button type="button" data-cart-close class="text-sm" style="opacity: 0.6">Close</button>
+    </div>
+    <p data-cart-empty class="text-sm" style="opacity: 0.5">Your cart is empty.</p>
+    <ul data-cart-lines class="flex flex-col gap-4"></ul>
+    <template data-cart-line>
+      <li class="flex items-start justify-between gap-4">
+        <div class="flex-1 min-w-0">
+          <p data-line-title class="text-sm font-medium"></p>
+          <p data-line-variant class="text-xs" style="opacity: 0.5"></p>
+          <div class="flex items-center gap-2 mt-2">
+            <button type="button" data-line-dec aria-label="Decrease quantity" class="w-7 h-7 text-sm rounded-full" style="${line}">−</button>
+            <span data-line-qty class="w-6 text-sm text-center"></span>
+            <button type="button" data-line-inc aria-label="Increase quantity" class="w-7 h-7 text-sm rounded-full" style="${line}">+</button>
+            <button type="button" data-line-remove class="ml-2 text-xs underline" style="opacity: 0.5">Remove</button>
+          </div>
+        </div>
+        <p data-line-price class="shrink-0 text-sm font-medium"></p>
+      </li>
+    </template>
+    <div class="mt-auto flex flex-col gap-3 pt-4" style="border-top: 1px solid color-mix(in srgb, var(--theme-main) 15%, transparent)">
+      <div class="flex justify-between text-sm font-medium"><span>Total</span><span data-cart-total></span></div>
+      <p data-cart-error hidden class="text-xs" style="opacity: 0.6"></p>
+      <button type="button" data-cart-checkout disabled class="py-3 text-sm font-medium rounded-lg disabled:opacity-50" style="background: var(--theme-accent); color: ${tc}">Checkout</button>
+    </div>
+  </aside>
+</div>`
+}
+
 // ─── Campaign ───
 
-function renderCampaign(section: Section, theme: LandTheme): string {
+// Each form posts to the `subscribe` function via the script added by renderSubscribeScript().
+// Success and error messages are rendered hidden, in the section's colours, and toggled by it.
+function renderCampaign(section: Section, theme: LandTheme, land: Land): string {
   const c = (section.content ?? {}) as unknown as CampaignContent
+  const s = (section.settings_json ?? {}) as CampaignSettings
 
   // Structure theme
   if (theme.theme_preset === 'structure') {
     const tc = getTextColorForAccent(theme)
+    const fieldStyle = `border-color: color-mix(in srgb, ${tc} 30%, transparent); color: ${tc}; background: transparent`
     return `
 <div class="max-w-5xl mx-auto p-24 my-16 rounded-2xl text-center space-y-6" style="background-color: var(--theme-accent)">
   <div class="space-y-3">
     ${c.title       ? `<h1 class="text-8xl leading-none tracking-tight" style="color: ${tc}">${esc(c.title)}</h1>` : ''}
     ${c.description ? `<p class="text-sm leading-relaxed max-w-[60ch]" style="color: var(--theme-main); opacity: 0.5">${esc(c.description)}</p>` : ''}
   </div>
-  <div class="flex flex-col items-center gap-3 max-w-sm mx-auto">
-    <input type="email" placeholder="${esc(c.placeholder || 'your@email.com')}" class="w-full px-4 py-2.5 rounded-xl text-sm outline-none border" style="border-color: color-mix(in srgb, ${tc} 30%, transparent); color: ${tc}; background: transparent">
-    <button class="w-full px-6 py-2.5 rounded-xl text-sm font-medium" style="background-color: ${tc}; color: var(--theme-accent)">${esc(c.button_label || 'Subscribe')}</button>
-  </div>
+  <form data-subscribe="${esc(land.handle)}" data-section="${esc(section.id)}" class="flex flex-col items-center gap-3 max-w-sm mx-auto">
+    ${s.show_name_field ? `<input type="text" name="name" placeholder="Your name" autocomplete="name" class="w-full px-4 py-2.5 rounded-xl text-sm outline-none border" style="${fieldStyle}">` : ''}
+    <input type="email" name="email" required placeholder="${esc(c.placeholder || 'your@email.com')}" autocomplete="email" class="w-full px-4 py-2.5 rounded-xl text-sm outline-none border" style="${fieldStyle}">
+    ${renderHoneypot()}
+    <button type="submit" class="w-full px-6 py-2.5 rounded-xl text-sm font-medium transition-opacity hover:opacity-80 disabled:opacity-50" style="background-color: ${tc}; color: var(--theme-accent)">${esc(c.button_label || 'Subscribe')}</button>
+    <p data-subscribe-success hidden class="text-sm" style="color: ${tc}">Thanks for subscribing!</p>
+    <p data-subscribe-error hidden class="text-sm" style="color: ${tc}; opacity: 0.7">Something went wrong. Please try again.</p>
+  </form>
 </div>`
   }
 
@@ -569,13 +708,87 @@ function renderCampaign(section: Section, theme: LandTheme): string {
 <div class="flex flex-1 flex-col gap-8 items-center py-36 px-6">
   ${c.title       ? `<h1 class="text-8xl font-bold leading-none tracking-tight" style="color: var(--theme-main)">${esc(c.title)}</h1>` : ''}
   ${c.description ? `<p class="text-sm leading-relaxed max-w-[60ch]" style="color: var(--theme-main); opacity: 0.5">${esc(c.description)}</p>` : ''}
-  <form class="flex items-center gap-2 shrink-0" onsubmit="return false">
-    <input type="email" placeholder="${esc(c.placeholder || 'email@example.com')}" class="border bg-transparent outline-none text-sm p-4 rounded-xl h-14 w-96" style="border-color: var(--theme-main); color: var(--theme-main)">
-    <button type="submit" class="py-4 px-8 text-sm font-medium rounded-xl h-14 text-gray-100" style="background: var(--theme-accent)">${esc(c.button_label || 'Subscribe')}</button>
+  <form data-subscribe="${esc(land.handle)}" data-section="${esc(section.id)}" class="flex flex-col items-center gap-3">
+    <div class="flex items-center gap-2 shrink-0">
+      ${s.show_name_field ? `<input type="text" name="name" placeholder="Your name" autocomplete="name" class="border bg-transparent outline-none text-sm p-4 rounded-xl h-14 w-48" style="border-color: var(--theme-main); color: var(--theme-main)">` : ''}
+      <input type="email" name="email" required placeholder="${esc(c.placeholder || 'email@example.com')}" autocomplete="email" class="border bg-transparent outline-none text-sm p-4 rounded-xl h-14 w-96" style="border-color: var(--theme-main); color: var(--theme-main)">
+      <button type="submit" class="py-4 px-8 text-sm font-medium rounded-xl h-14 text-gray-100 transition-opacity disabled:opacity-50" style="background: var(--theme-accent)">${esc(c.button_label || 'Subscribe')}</button>
+    </div>
+    ${renderHoneypot()}
+    <p data-subscribe-success hidden class="text-sm" style="color: var(--theme-accent)">Thanks for subscribing!</p>
+    <p data-subscribe-error hidden class="text-sm" style="color: var(--theme-main); opacity: 0.6">Something went wrong. Please try again.</p>
   </form>
 </div>`
 }
 
+// Off-screen field people never see or tab to; bots that fill every input give themselves
+// away (publish/guard.ts). Sent along with the form token below.
+function renderHoneypot(): string {
+  return `<div aria-hidden="true" style="position: absolute; left: -10000px; width: 1px; height: 1px; overflow: hidden"><input type="text" name="${HONEYPOT_FIELD}" tabindex="-1" autocomplete="off"></div>`
+}
+
+// Script line asking the worker for the page's signed load time as soon as it loads.
+// Submissions wait on `formToken`, so a form sent before it arrives still carries it.
+function renderFormToken(): string {
+  return `var formToken = fetch(${JSON.stringify(FORM_TOKEN_PATH)}, { cache: 'no-store' })
+  .then(function (res) { return res.json(); })
+  .then(function (body) { return body.token || ''; })
+  .catch(function () { return ''; });`
+}
+
+// Plain script (no framework) wiring every campaign form on the page to `subscribe`.
+// The button shows an ellipsis while the request is in flight; a refused signup shows the
+// function's message (invalid email, too many attempts) in place of the generic one.
+function renderSubscribeScript(): string {
+  return `<script>
+${renderFormToken()}
+document.querySelectorAll('form[data-subscribe]').forEach(function (form) {
+  var button = form.querySelector('button[type="submit"]');
+  var success = form.querySelector('[data-subscribe-success]');
+  var failure = form.querySelector('[data-subscribe-error]');
+  var label = button.textContent;
+  var fallback = failure.textContent;
+  function fail(message) {
+    failure.textContent = message || fallback;
+    failure.hidden = false;
+  }
+  form.addEventListener('submit', function (e) {
+    e.preventDefault();
+    var data = new FormData(form);
+    button.disabled = true;
+    button.textContent = '…';
+    success.hidden = true;
+    failure.hidden = true;
+    formToken
+      .then(function (token) {
+        return fetch(${JSON.stringify(SUBSCRIBE_URL)}, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            handle: form.dataset.subscribe,
+            sectionId: form.dataset.section,
+            email: data.get('email'),
+            name: data.get('name') || undefined,
+            ${HONEYPOT_FIELD}: data.get(${JSON.stringify(HONEYPOT_FIELD)}) || '',
+            formToken: token
+          })
+        });
+      })
+      .then(function (res) {
+        if (!res.ok) return res.json().then(function (body) { fail(body.error); });
+        form.reset();
+        success.hidden = false;
+      })
+      .catch(function () { fail(); })
+      .finally(function () {
+        button.disabled = false;
+        button.textContent = label;
+      });
+  });
+});
+</script>`
+}
+
 // ─── Footer ───
 
 function renderFooter(section: Section, theme: LandTheme, land: Land): string {
@@ -641,6 +854,205 @@ function renderFooter(section: Section, theme: LandTheme, land: Land): string {
 </div>`
 }
 
+// Persistent cart shared by every store on the page, kept in localStorage per land.
+// Lines merge by item and picked options; checkout posts them all to stripe-checkout,
+// which builds one session. Stripe redirects back to /checkout/success or /checkout/cancel
+// on this host, served by the worker. On load, stock from store-stock updates sold-out
+// buttons and options.
+function renderCartScript(landId: string, currency: string): string {
+  return `<script>
+(function () {
+  var KEY = 'lands-cart:' + ${JSON.stringify(landId)};
+  var buttons = document.querySelectorAll('button[data-buy]');
+  var drawer = document.querySelector('[data-cart]');
+  var toggle = document.querySelector('[data-cart-toggle]');
+  var list = drawer.querySelector('[data-cart-lines]');
+  var template = drawer.querySelector('template[data-cart-line]');
+  var empty = drawer.querySelector('[data-cart-empty]');
+  var total = drawer.querySelector('[data-cart-total]');
+  var checkout = drawer.querySelector('[data-cart-checkout]');
+  var failure = drawer.querySelector('[data-cart-error]');
+  var lines = [];
+
+  var price = new Intl.NumberFormat('en', { style: 'currency', currency: ${JSON.stringify(currency.toUpperCase())} });
+  function money(amount) { return price.format(amount); }
+
+  function buttonFor(itemId) {
+    return Array.prototype.find.call(buttons, function (button) { return button.dataset.item === itemId; });
+  }
+
+  function pickers(button) {
+    return button.closest('li').querySelectorAll('select[data-variant]');
+  }
+
+  function setSoldOut(button, soldOut) {
+    button.disabled = soldOut;
+    button.textContent = soldOut ? 'Sold out' : 'Add to cart';
+  }
+
+  function save() {
+    try { localStorage.setItem(KEY, JSON.stringify(lines)); } catch (e) {}
+  }
+
+  function render() {
+    var count = 0;
+    var sum = 0;
+    list.textContent = '';
+    lines.forEach(function (line, index) {
+      count += line.quantity;
+      sum += line.price * line.quantity;
+      var row = template.content.firstElementChild.cloneNode(true);
+      row.querySelector('[data-line-title]').textContent = line.title;
+      row.querySelector('[data-line-variant]').textContent = line.variant;
+      row.querySelector('[data-line-qty]').textContent = line.quantity;
+      row.querySelector('[data-line-price]').textContent = money(line.price * line.quantity);
+      row.querySelector('[data-line-dec]').addEventListener('click', function () { setQuantity(index, line.quantity - 1); });
+      row.querySelector('[data-line-inc]').addEventListener('click', function () { setQuantity(index, line.quantity + 1); });
+      row.querySelector('[data-line-remove]').addEventListener('click', function () { setQuantity(index, 0); });
+      list.appendChild(row);
+    });
+    toggle.hidden = !count;
+    toggle.querySelector('[data-cart-count]').textContent = count;
+    empty.hidden = !!lines.length;
+    checkout.disabled = !lines.length;
+    total.textContent = money(sum);
+  }
+
+  function setQuantity(index, quantity) {
+    if (quantity <= 0) lines.splice(index, 1);
+    else lines[index].quantity = Math.min(quantity, 99);
+    failure.hidden = true;
+    save();
+    render();
+  }
+
+  function open(show) {
+    drawer.hidden = !show;
+    if (show) failure.hidden = true;
+  }
+
+  // Drop items removed since the cart was filled and pick up current titles and prices
+  try { lines = JSON.parse(localStorage.getItem(KEY)) || []; } catch (e) {}
+  lines = lines.filter(function (line) {
+    var button = buttonFor(line.itemId);
+    if (!button) return false;
+    line.title = button.dataset.title;
+    line.price = Number(button.dataset.price);
+    return true;
+  });
+  save();
+  render();
+
+  buttons.forEach(function (button) {
+    button.addEventListener('click', function () {
+      var selection = {};
+      var labels = [];
+      pickers(button).forEach(function (select) {
+        selection[select.dataset.variant] = select.value;
+        labels.push(select.getAttribute('aria-label') + ': ' + select.value);
+      });
+      var key = button.dataset.item + JSON.stringify(selection);
+      var line = lines.find(function (l) { return l.itemId + JSON.stringify(l.selection) === key; });
+      if (line) {
+        line.quantity = Math.min(line.quantity + 1, 99);
+      } else {
+        lines.push({
+          sectionId: button.dataset.section,
+          storeId: button.dataset.store,
+          itemId: button.dataset.item,
+          selection: selection,
+          title: button.dataset.title,
+          variant: labels.join(', '),
+          price: Number(button.dataset.price),
+          quantity: 1
+        });
+      }
+      save();
+      render();
+      open(true);
+    });
+  });
+
+  toggle.addEventListener('click', function () { open(true); });
+  drawer.querySelectorAll('[data-cart-close]').forEach(function (el) {
+    el.addEventListener('click', function () { open(false); });
+  });
+
+  checkout.addEventListener('click', function () {
+    var label = checkout.textContent;
+    function fail(message) {
+      failure.textContent = message;
+      failure.hidden = false;
+      checkout.disabled = false;
+      checkout.textContent = label;
+    }
+    checkout.disabled = true;
+    checkout.textContent = '…';
+    failure.hidden = true;
+    fetch(${JSON.stringify(CHECKOUT_URL)}, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        landId: ${JSON.stringify(landId)},
+        lines: lines.map(function (line) {
+          return { sectionId: line.sectionId, storeId: line.storeId, itemId: line.itemId, selection: line.selection, quantity: line.quantity };
+        }),
+        origin: location.origin
+      })
+    })
+      .then(function (res) { return res.json(); })
+      .then(function (data) {
+        if (data.url) {
+          location.href = data.url;
+          return;
+        }
+        if (data.soldOut) {
+          var button = buttonFor(data.itemId);
+          if (button) setSoldOut(button, true);
+        }
+        fail(data.error || 'Checkout is unavailable right now.');
+      })
+      // Network and unreadable responses only — the function's own errors are shown above
+      .catch(function () { fail('Checkout is unavailable right now.'); });
+  });
+
+  fetch(${JSON.stringify(STOCK_URL)} + '?landId=' + ${JSON.stringify(encodeURIComponent(landId))})
+    .then(function (res) { return res.json(); })
+    .then(function (stock) {
+      buttons.forEach(function (button) {
+        var item = stock.items && stock.items[button.dataset.item];
+        if (!item) return;
+        pickers(button).forEach(function (select) {
+          var soldOut = item.options[select.dataset.variant] || [];
+          Array.prototype.forEach.call(select.options, function (option) {
+            option.disabled = soldOut.indexOf(option.value) !== -1;
+            option.textContent = option.value + (option.disabled ? ' — Sold out' : '');
+          });
+          if (select.selectedOptions[0] && select.selectedOptions[0].disabled) {
+            var next = Array.prototype.find.call(select.options, function (option) { return !option.disabled; });
+            if (next) select.value = next.value;
+          }
+        });
+        setSoldOut(button, item.soldOut);
+      });
+    })
+    .catch(function () {});
+})();
+</script>`
+}
+
+// Reports outbound link clicks to the worker (same origin, no cookies). sendBeacon
+// survives the navigation the click starts.
+function renderClickBeacon(): string {
+  return `<script>
+document.addEventListener('click', function (e) {
+  var a = e.target.closest ? e.target.closest('a[href]') : null;
+  if (!a || a.host === location.host || !/^https?:$/.test(a.protocol)) return;
+  navigator.sendBeacon('/_lands/click', JSON.stringify({ url: a.href, label: (a.textContent || '').trim().slice(0, 100) }));
+});
+</script>`
+}
+
 // ─── Dispatcher ───
 
 function renderSection(section: Section, theme: LandTheme, land: Land): string {
@@ -651,9 +1063,9 @@ function renderSection(section: Section, theme: LandTheme, land: Land): string {
     case 'content_media': return renderContentMedia(section, theme)
     case 'list':          return renderList(section, theme)
     case 'collection':    return renderCollection(section, theme)
-    case 'store':         return renderStore(section, theme)
-    case 'campaign':      return renderCampaign(section, theme)
-    case 'monetize':      return renderMonetize(section, theme)
+    case 'store':         return renderStore(section, theme, land.currency ?? DEFAULT_CURRENCY)
+    case 'campaign':      return renderCampaign(section, theme, land)
+    case 'monetize':      return renderMonetize(section, theme, land.currency ?? DEFAULT_CURRENCY)
     case 'footer':        return renderFooter(section, theme, land)
     default:              return ''
   }
@@ -662,7 +1074,9 @@ function renderSection(section: Section, theme: LandTheme, land: Land): string {
 // ─── Main ───
 
 export function renderLand(land: Land): string {
-  const body = sortByPosition(land.sections).map(s => renderSection(s, land.theme, land)).join('\n')
+  const sections = sortByPosition(land.sections).map(s => renderSection(s, land.theme, land)).join('\n')
+  const hasStore = sections.includes('data-buy')
+  const body = hasStore ? sections + renderCart(land.theme) : sections
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -675,10 +1089,279 @@ export function renderLand(land: Land): string {
   ${(land.meta_description || land.description) ? `<meta property="og:description" content="${esc(land.meta_description || land.description)}">` : ''}
   ${land.og_image ? `<meta property="og:image" content="${esc(land.og_image)}">` : ''}
   ${buildFontLinks(land.theme)}
-  ${buildBaseStyles(land.theme)}
+  ${buildBaseStyles(land.theme, body)}
 </head>
 <body>
 ${body}
+${body.includes('data-subscribe=') ? renderSubscribeScript() : ''}
+${hasStore ? renderCartScript(land.id, land.currency ?? DEFAULT_CURRENCY) : ''}
+${body.includes('data-join') ? renderMembershipScript(land.id) : ''}
+${renderClickBeacon()}
+</body>
+</html>`
+}
+
+// ─── Password gate ───
+
+// Served by the worker in front of private lands. Contains no page content and no
+// password material — the form posts back to the same URL where the worker verifies it.
+// The `data-gate-error` paragraph is unhidden by the worker after a failed attempt.
+export function renderPasswordGate(land: Land): string {
+  const theme = land.theme
+  const title = land.meta_title || land.title || land.handle
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${esc(title)}</title>
+  ${buildFontLinks(theme)}
+  <style>
+    :root {
+      --theme-main:    ${theme.color_main};
+      --theme-accent:  ${theme.color_accent};
+      --theme-surface: ${theme.color_surface};
+    }
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: ${theme.font_body}; -webkit-font-smoothing: antialiased; display: flex; align-items: center; justify-content: center; min-height: 100vh; padding: 1.5rem; background: var(--theme-surface); color: var(--theme-main); }
+    form { width: 100%; max-width: 22rem; display: flex; flex-direction: column; gap: 0.75rem; text-align: center; }
+    h1 { font-family: ${theme.font_title}; font-size: 1.5rem; font-weight: 600; margin-bottom: 0.25rem; }
+    p { font-size: 0.875rem; opacity: 0.5; }
+    input { width: 100%; padding: 0.75rem 1rem; font: inherit; font-size: 0.875rem; border-radius: 0.75rem; border: 1px solid color-mix(in srgb, var(--theme-main) 25%, transparent); background: transparent; color: var(--theme-main); outline: none; }
+    input:focus { border-color: var(--theme-accent); }
+    button { padding: 0.75rem 1rem; font: inherit; font-size: 0.875rem; font-weight: 500; border: 0; border-radius: 0.75rem; cursor: pointer; background: var(--theme-accent); color: ${getTextColorForAccent(theme)}; }
+    [data-gate-error] { color: #dc2626; opacity: 1; }
+    [hidden] { display: none; }
+  </style>
+</head>
+<body>
+  <form method="POST">
+    <h1>${esc(land.title || land.handle)}</h1>
+    <p>This page is password protected.</p>
+    <input type="password" name="password" placeholder="Password" autocomplete="current-password" required autofocus>
+    <p data-gate-error hidden>Incorrect password. Please try again.</p>
+    <button type="submit">Enter</button>
+  </form>
+</body>
+</html>`
+}
+
+// ─── Checkout result ───
+
+// Served by the worker at /checkout/success and /checkout/cancel after Stripe Checkout.
+// Both messages are rendered hidden; the worker unhides the one matching the path.
+// A successful checkout also empties the page's cart and, for digital items, links to the
+// buyer's download page once the webhook has recorded the order.
+export function renderCheckoutPage(land: Land): string {
+  const theme = land.theme
+  const name = esc(land.title || land.handle)
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${name}</title>
+  ${buildFontLinks(theme)}
+  <style>
+    :root {
+      --theme-main:    ${theme.color_main};
+      --theme-accent:  ${theme.color_accent};
+      --theme-surface: ${theme.color_surface};
+    }
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: ${theme.font_body}; -webkit-font-smoothing: antialiased; display: flex; align-items: center; justify-content: center; min-height: 100vh; padding: 1.5rem; background: var(--theme-surface); color: var(--theme-main); }
+    main { width: 100%; max-width: 24rem; display: flex; flex-direction: column; gap: 0.75rem; text-align: center; }
+    h1 { font-family: ${theme.font_title}; font-size: 1.5rem; font-weight: 600; }
+    p { font-size: 0.875rem; opacity: 0.5; }
+    a { margin-top: 0.75rem; padding: 0.75rem 1rem; font-size: 0.875rem; font-weight: 500; border-radius: 0.75rem; text-decoration: none; background: var(--theme-accent); color: ${getTextColorForAccent(theme)}; }
+    [hidden] { display: none; }
+  </style>
+</head>
+<body>
+  <main data-checkout="success" hidden>
+    <h1>Thank you for your order</h1>
+    <p>Your payment went through. A receipt is on its way to your inbox.</p>
+    <a data-downloads hidden>Download your files</a>
+    <a href="/">Back to ${name}</a>
+  </main>
+  <main data-checkout="cancel" hidden>
+    <h1>Checkout cancelled</h1>
+    <p>You haven't been charged.</p>
+    <a href="/">Back to ${name}</a>
+  </main>
+  <script>
+    if (location.pathname === '/checkout/success') {
+      try { localStorage.removeItem(${JSON.stringify(`lands-cart:${land.id}`)}); } catch (e) {}
+      var sessionId = new URLSearchParams(location.search).get('session_id');
+      var attempts = 0;
+      (function findDownloads() {
+        if (!sessionId || ++attempts > 5) return;
+        fetch(${JSON.stringify(DOWNLOAD_URL)}, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sessionId: sessionId })
+        })
+          .then(function (res) { return res.ok ? res.json() : null; })
+          .then(function (data) {
+            if (!data || !data.url) return setTimeout(findDownloads, 2000);
+            var link = document.querySelector('[data-downloads]');
+            link.href = data.url;
+            link.hidden = false;
+          })
+          .catch(function () {});
+      })();
+    }
+  </script>
+</body>
+</html>`
+}
+
+// ─── Members area ───
+
+// Pages behind /members for lands with monetize collections, or null when there are none.
+// See MembersPages for how the worker serves them.
+export function renderMembersPages(land: Land): MembersPages | null {
+  const collections = sortByPosition(land.sections)
+    .filter(s => s.type === 'monetize')
+    .flatMap(s => ((s.content ?? {}) as unknown as CollectionContent).collections ?? [])
+  if (!collections.length) return null
+
+  const items: MembersPages['items'] = {}
+  for (const col of collections) {
+    for (const item of col.items ?? []) {
+      items[item.id] = { collectionId: col.id, paid: isPaidCollection(col), html: renderMemberItem(land, item, isPaidCollection(col)) }
+    }
+  }
+  return { landId: land.id, login: renderMemberLogin(land), items }
+}
+
+function renderMemberItem(land: Land, item: CollectionItem, paid: boolean): string {
+  const body = `
+<main class="max-w-2xl mx-auto px-6 py-16 flex flex-col gap-8">
+  <nav class="flex items-center justify-between text-xs" style="color: var(--theme-main)">
+    <a href="/" style="opacity: 0.6">← ${esc(land.title || land.handle)}</a>
+    ${paid ? '<a href="/members/logout" style="opacity: 0.6">Sign out</a>' : ''}
+  </nav>
+  ${item.media_url ? `<img src="${esc(item.media_url)}" class="w-full rounded-2xl object-cover">` : ''}
+  <div class="flex flex-col gap-2">
+    <h1 class="text-4xl font-semibold" style="color: var(--theme-main)">${esc(item.title || 'Untitled')}</h1>
+    ${item.description ? `<p class="text-sm leading-relaxed" style="color: var(--theme-main); opacity: 0.5">${esc(item.description)}</p>` : ''}
+  </div>
+  ${item.content ? `<div class="prose prose-sm max-w-none text-sm leading-relaxed" style="--tw-prose-headings: var(--theme-main); --tw-prose-links: var(--theme-accent)">${item.content}</div>` : ''}
+  ${item.external_url ? `<a href="${esc(item.external_url)}" class="self-start px-6 py-3 rounded-xl text-sm font-medium" style="background: var(--theme-accent); color: ${getTextColorForAccent(land.theme)}">Open</a>` : ''}
+</main>`
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  ${paid ? '<meta name="robots" content="noindex">' : ''}
+  <title>${esc(item.title || 'Untitled')} — ${esc(land.title || land.handle)}</title>
+  ${buildFontLinks(land.theme)}
+  ${buildBaseStyles(land.theme, body)}
+</head>
+<body style="background: var(--theme-surface)">
+${body}
+</body>
+</html>`
+}
+
+// Served by the worker at /members. The form asks member-login to email a one-time link;
+// the worker sends visitors back here with ?next= (a members page they tried to open),
+// ?expired=1 (an invalid sign-in link) or, after Stripe Checkout, ?joined=1.
+function renderMemberLogin(land: Land): string {
+  const theme = land.theme
+  const name = esc(land.title || land.handle)
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>Members — ${name}</title>
+  ${buildFontLinks(theme)}
+  <style>
+    :root {
+      --theme-main:    ${theme.color_main};
+      --theme-accent:  ${theme.color_accent};
+      --theme-surface: ${theme.color_surface};
+    }
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: ${theme.font_body}; -webkit-font-smoothing: antialiased; display: flex; align-items: center; justify-content: center; min-height: 100vh; padding: 1.5rem; background: var(--theme-surface); color: var(--theme-main); }
+    form { width: 100%; max-width: 22rem; display: flex; flex-direction: column; gap: 0.75rem; text-align: center; }
+    h1 { font-family: ${theme.font_title}; font-size: 1.5rem; font-weight: 600; margin-bottom: 0.25rem; }
+    p { font-size: 0.875rem; opacity: 0.5; }
+    input { width: 100%; padding: 0.75rem 1rem; font: inherit; font-size: 0.875rem; border-radius: 0.75rem; border: 1px solid color-mix(in srgb, var(--theme-main) 25%, transparent); background: transparent; color: var(--theme-main); outline: none; }
+    input:focus { border-color: var(--theme-accent); }
+    button { padding: 0.75rem 1rem; font: inherit; font-size: 0.875rem; font-weight: 500; border: 0; border-radius: 0.75rem; cursor: pointer; background: var(--theme-accent); color: ${getTextColorForAccent(theme)}; }
+    button:disabled { opacity: 0.5; }
+    a { font-size: 0.75rem; color: var(--theme-main); opacity: 0.5; text-decoration: none; margin-top: 0.5rem; }
+    [data-login-notice] { opacity: 1; }
+    [hidden] { display: none; }
+  </style>
+</head>
+<body>
+  <form data-member-login>
+    <h1>${name}</h1>
+    <p data-login-notice="joined" hidden>Welcome aboard! We're emailing you a link to sign in.</p>
+    <p data-login-notice="expired" hidden>That sign-in link has expired or was already used. Request a new one below.</p>
+    <p>Members sign in with a link sent to their email.</p>
+    <input type="email" name="email" placeholder="you@example.com" autocomplete="email" required autofocus>
+    ${renderHoneypot()}
+    <button type="submit">Email me a sign-in link</button>
+    <p data-login-sent hidden>Check your inbox. If this email has a membership, a sign-in link is on its way.</p>
+    <p data-login-error hidden>Something went wrong. Please try again.</p>
+    <a href="/">← Back to ${name}</a>
+  </form>
+  <script>
+    ${renderFormToken()}
+    var params = new URLSearchParams(location.search);
+    document.querySelectorAll('[data-login-notice]').forEach(function (notice) {
+      notice.hidden = params.get(notice.dataset.loginNotice) !== '1';
+    });
+    var form = document.querySelector('[data-member-login]');
+    var button = form.querySelector('button');
+    var failure = form.querySelector('[data-login-error]');
+    var fallback = failure.textContent;
+    function fail(message) {
+      failure.textContent = message || fallback;
+      failure.hidden = false;
+    }
+    form.addEventListener('submit', function (e) {
+      e.preventDefault();
+      var data = new FormData(form);
+      button.disabled = true;
+      form.querySelector('[data-login-sent]').hidden = true;
+      failure.hidden = true;
+      formToken
+        .then(function (token) {
+          return fetch(${JSON.stringify(MEMBER_LOGIN_URL)}, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              landId: ${JSON.stringify(land.id)},
+              email: data.get('email'),
+              origin: location.origin,
+              next: params.get('next') || undefined,
+              ${HONEYPOT_FIELD}: data.get(${JSON.stringify(HONEYPOT_FIELD)}) || '',
+              formToken: token
+            })
+          });
+        })
+        .then(function (res) {
+          if (!res.ok) return res.json().then(function (body) { fail(body.error); });
+          form.querySelector('[data-login-sent]').hidden = false;
+        })
+        .catch(function () { fail(); })
+        .finally(function () { button.disabled = false; });
+    });
+  </script>
 </body>
 </html>`
 }
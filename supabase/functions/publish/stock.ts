@@ -0,0 +1,32 @@
+import type { StoreItem, StoreVariant, StoreVariantOption } from './types.ts'
+
+// Stock rules shared by the renderer, stripe-checkout and store-stock.
+// Mirrors src/features/sections/stock.ts — keep them in sync.
+
+/** Variants the buyer has to choose from (empty option lists are ignored). */
+export function choosableVariants(item: StoreItem): StoreVariant[] {
+  return (item.variants ?? []).filter((v) => v.options.length > 0)
+}
+
+export function isOptionSoldOut(item: StoreItem, option: StoreVariantOption, reserved = 0): boolean {
+  return !!item.track_inventory && option.inventory - reserved <= 0
+}
+
+/**
+ * Sold out when a tracked item has no stock left — or, with variants, when any
+ * variant has no option left to pick. `reserved` counts units held by open checkouts.
+ */
+export function isSoldOut(item: StoreItem, reserved: (variantId: string | null, value: string | null) => number = () => 0): boolean {
+  if (!item.track_inventory) return false
+  const variants = choosableVariants(item)
+  if (!variants.length) return (item.inventory ?? 0) - reserved(null, null) <= 0
+  return variants.some((v) => v.options.every((o) => isOptionSoldOut(item, o, reserved(v.id, o.value))))
+}
+
+/** "Size: M, Colour: Red" for the options picked in `selection` ({ variantId: value }). */
+export function variantLabel(item: StoreItem, selection: Record<string, string>): string | null {
+  const parts = choosableVariants(item)
+    .filter((v) => selection[v.id])
+    .map((v) => `${v.name || 'Option'}: ${selection[v.id]}`)
+  return parts.length ? parts.join(', ') : null
+}
@@ -0,0 +1,226 @@
+// Generated by scripts/build-page-styles.mjs from renderer.ts — do not edit.
+// Run `npm run build:page-styles` after changing the classes the renderer emits.
+
+/** Preflight reset, in `@layer base`. */
+export const BASE_CSS = "@layer base {*, ::after, ::before, ::backdrop, ::file-selector-button {box-sizing: border-box;margin: 0;padding: 0;border: 0 solid;}html, :host {line-height: 1.5;-webkit-text-size-adjust: 100%;tab-size: 4;font-family: ui-sans-serif, system-ui, sans-serif, 'Apple Color Emoji', 'Segoe UI Emoji', 'Segoe UI Symbol','Noto Color Emoji';font-feature-settings: normal;font-variation-settings: normal;-webkit-tap-highlight-color: transparent;}hr {height: 0;color: inherit;border-top-width: 1px;}abbr:where([title]) {-webkit-text-decoration: underline dotted;text-decoration: underline dotted;}h1, h2, h3, h4, h5, h6 {font-size: inherit;font-weight: inherit;}a {color: inherit;-webkit-text-decoration: inherit;text-decoration: inherit;}b, strong {font-weight: bolder;}code, kbd, samp, pre {font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, 'Liberation Mono', 'Courier New',monospace;font-feature-settings: normal;font-variation-settings: normal;font-size: 1em;}small {font-size: 80%;}sub, sup {font-size: 75%;line-height: 0;position: relative;vertical-align: baseline;}sub {bottom: -0.25em;}sup {top: -0.5em;}table {text-indent: 0;border-color: inherit;border-collapse: collapse;}:-moz-focusring {outline: auto;}progress {vertical-align: baseline;}summary {display: list-item;}ol, ul, menu {list-style: none;}img, svg, video, canvas, audio, iframe, embed, object {display: block;vertical-align: middle;}img, video {max-width: 100%;height: auto;}button, input, select, optgroup, textarea, ::file-selector-button {font: inherit;font-feature-settings: inherit;font-variation-settings: inherit;letter-spacing: inherit;color: inherit;border-radius: 0;background-color: transparent;opacity: 1;}:where(select:is([multiple], [size])) optgroup {font-weight: bolder;}:where(select:is([multiple], [size])) optgroup option {padding-inline-start: 20px;}::file-selector-button {margin-inline-end: 4px;}::placeholder {opacity: 1;}@supports (not (-webkit-appearance: -apple-pay-button))  or (contain-intrinsic-size: 1px) {::placeholder {color: currentcolor;@supports (color: color-mix(in lab, red, red)) {color: color-mix(in oklab, currentcolor 50%, transparent);}}}textarea {resize: vertical;}::-webkit-search-decoration {-webkit-appearance: none;}::-webkit-date-and-time-value {min-height: 1lh;text-align: inherit;}::-webkit-datetime-edit {display: inline-flex;}::-webkit-datetime-edit-fields-wrapper {padding: 0;}::-webkit-datetime-edit, ::-webkit-datetime-edit-year-field, ::-webkit-datetime-edit-month-field, ::-webkit-datetime-edit-day-field, ::-webkit-datetime-edit-hour-field, ::-webkit-datetime-edit-minute-field, ::-webkit-datetime-edit-second-field, ::-webkit-datetime-edit-millisecond-field, ::-webkit-datetime-edit-meridiem-field {padding-block: 0;}::-webkit-calendar-picker-indicator {line-height: 1;}:-moz-ui-invalid {box-shadow: none;}button, input:where([type='button'], [type='reset'], [type='submit']), ::file-selector-button {appearance: button;}::-webkit-inner-spin-button, ::-webkit-outer-spin-button {height: auto;}[hidden]:where(:not([hidden='until-found'])) {display: none !important;}}@layer base {*, ::after, ::before, ::backdrop, ::file-selector-button {border-color: oklch(92.8% 0.006 264.531);}}"
+
+/** [class, rule] in Tailwind's cascade order. */
+export const UTILITIES: [string, string][] = [
+  ["pointer-events-none",".pointer-events-none {pointer-events: none;}"],
+  ["absolute",".absolute {position: absolute;}"],
+  ["fixed",".fixed {position: fixed;}"],
+  ["relative",".relative {position: relative;}"],
+  ["inset-0",".inset-0 {inset: calc(0.25rem * 0);}"],
+  ["top-0",".top-0 {top: calc(0.25rem * 0);}"],
+  ["top-12",".top-12 {top: calc(0.25rem * 12);}"],
+  ["right-0",".right-0 {right: calc(0.25rem * 0);}"],
+  ["right-6",".right-6 {right: calc(0.25rem * 6);}"],
+  ["bottom-0",".bottom-0 {bottom: calc(0.25rem * 0);}"],
+  ["bottom-6",".bottom-6 {bottom: calc(0.25rem * 6);}"],
+  ["left-0",".left-0 {left: calc(0.25rem * 0);}"],
+  ["z-50",".z-50 {z-index: 50;}"],
+  ["order-1",".order-1 {order: 1;}"],
+  ["order-2",".order-2 {order: 2;}"],
+  ["mx-auto",".mx-auto {margin-inline: auto;}"],
+  ["my-16",".my-16 {margin-block: calc(0.25rem * 16);}"],
+  ["-mt-6",".-mt-6 {margin-top: calc(0.25rem * -6);}"],
+  ["mt-0.5",".mt-0\\.5 {margin-top: calc(0.25rem * 0.5);}"],
+  ["mt-1",".mt-1 {margin-top: calc(0.25rem * 1);}"],
+  ["mt-2",".mt-2 {margin-top: calc(0.25rem * 2);}"],
+  ["mt-3",".mt-3 {margin-top: calc(0.25rem * 3);}"],
+  ["mt-16",".mt-16 {margin-top: calc(0.25rem * 16);}"],
+  ["mt-auto",".mt-auto {margin-top: auto;}"],
+  ["mb-8",".mb-8 {margin-bottom: calc(0.25rem * 8);}"],
+  ["ml-2",".ml-2 {margin-left: calc(0.25rem * 2);}"],
+  ["flex",".flex {display: flex;}"],
+  ["grid",".grid {display: grid;}"],
+  ["hidden",".hidden {display: none;}"],
+  ["inline-flex",".inline-flex {display: inline-flex;}"],
+  ["aspect-square",".aspect-square {aspect-ratio: 1 / 1;}"],
+  ["aspect-video",".aspect-video {aspect-ratio: 16 / 9;}"],
+  ["h-7",".h-7 {height: calc(0.25rem * 7);}"],
+  ["h-8",".h-8 {height: calc(0.25rem * 8);}"],
+  ["h-9",".h-9 {height: calc(0.25rem * 9);}"],
+  ["h-12",".h-12 {height: calc(0.25rem * 12);}"],
+  ["h-14",".h-14 {height: calc(0.25rem * 14);}"],
+  ["h-[40em]",".h-\\[40em\\] {height: 40em;}"],
+  ["h-full",".h-full {height: 100%;}"],
+  ["h-screen",".h-screen {height: 100vh;}"],
+  ["max-h-48",".max-h-48 {max-height: calc(0.25rem * 48);}"],
+  ["w-6",".w-6 {width: calc(0.25rem * 6);}"],
+  ["w-7",".w-7 {width: calc(0.25rem * 7);}"],
+  ["w-9",".w-9 {width: calc(0.25rem * 9);}"],
+  ["w-12",".w-12 {width: calc(0.25rem * 12);}"],
+  ["w-20",".w-20 {width: calc(0.25rem * 20);}"],
+  ["w-48",".w-48 {width: calc(0.25rem * 48);}"],
+  ["w-96",".w-96 {width: calc(0.25rem * 96);}"],
+  ["w-[15ch]",".w-\\[15ch\\] {width: 15ch;}"],
+  ["w-[35ch]",".w-\\[35ch\\] {width: 35ch;}"],
+  ["w-auto",".w-auto {width: auto;}"],
+  ["w-full",".w-full {width: 100%;}"],
+  ["max-w-2xl",".max-w-2xl {max-width: 42rem;}"],
+  ["max-w-5xl",".max-w-5xl {max-width: 64rem;}"],
+  ["max-w-[15ch]",".max-w-\\[15ch\\] {max-width: 15ch;}"],
+  ["max-w-[60ch]",".max-w-\\[60ch\\] {max-width: 60ch;}"],
+  ["max-w-[70ch]",".max-w-\\[70ch\\] {max-width: 70ch;}"],
+  ["max-w-md",".max-w-md {max-width: 28rem;}"],
+  ["max-w-none",".max-w-none {max-width: none;}"],
+  ["max-w-sm",".max-w-sm {max-width: 24rem;}"],
+  ["min-w-0",".min-w-0 {min-width: calc(0.25rem * 0);}"],
+  ["flex-1",".flex-1 {flex: 1;}"],
+  ["shrink-0",".shrink-0 {flex-shrink: 0;}"],
+  ["grid-cols-1",".grid-cols-1 {grid-template-columns: repeat(1, minmax(0, 1fr));}"],
+  ["grid-cols-2",".grid-cols-2 {grid-template-columns: repeat(2, minmax(0, 1fr));}"],
+  ["grid-cols-3",".grid-cols-3 {grid-template-columns: repeat(3, minmax(0, 1fr));}"],
+  ["grid-cols-4",".grid-cols-4 {grid-template-columns: repeat(4, minmax(0, 1fr));}"],
+  ["flex-col",".flex-col {flex-direction: column;}"],
+  ["flex-wrap",".flex-wrap {flex-wrap: wrap;}"],
+  ["items-center",".items-center {align-items: center;}"],
+  ["items-end",".items-end {align-items: flex-end;}"],
+  ["items-start",".items-start {align-items: flex-start;}"],
+  ["justify-between",".justify-between {justify-content: space-between;}"],
+  ["justify-center",".justify-center {justify-content: center;}"],
+  ["justify-end",".justify-end {justify-content: flex-end;}"],
+  ["gap-0.5",".gap-0\\.5 {gap: calc(0.25rem * 0.5);}"],
+  ["gap-1",".gap-1 {gap: calc(0.25rem * 1);}"],
+  ["gap-1.5",".gap-1\\.5 {gap: calc(0.25rem * 1.5);}"],
+  ["gap-2",".gap-2 {gap: calc(0.25rem * 2);}"],
+  ["gap-3",".gap-3 {gap: calc(0.25rem * 3);}"],
+  ["gap-4",".gap-4 {gap: calc(0.25rem * 4);}"],
+  ["gap-6",".gap-6 {gap: calc(0.25rem * 6);}"],
+  ["gap-8",".gap-8 {gap: calc(0.25rem * 8);}"],
+  ["gap-12",".gap-12 {gap: calc(0.25rem * 12);}"],
+  ["gap-16",".gap-16 {gap: calc(0.25rem * 16);}"],
+  ["space-y-2",".space-y-2 {:where(& > :not(:last-child)) {--tw-space-y-reverse: 0;margin-block-start: calc(calc(0.25rem * 2) * var(--tw-space-y-reverse));margin-block-end: calc(calc(0.25rem * 2) * calc(1 - var(--tw-space-y-reverse)));}}"],
+  ["space-y-3",".space-y-3 {:where(& > :not(:last-child)) {--tw-space-y-reverse: 0;margin-block-start: calc(calc(0.25rem * 3) * var(--tw-space-y-reverse));margin-block-end: calc(calc(0.25rem * 3) * calc(1 - var(--tw-space-y-reverse)));}}"],
+  ["space-y-6",".space-y-6 {:where(& > :not(:last-child)) {--tw-space-y-reverse: 0;margin-block-start: calc(calc(0.25rem * 6) * var(--tw-space-y-reverse));margin-block-end: calc(calc(0.25rem * 6) * calc(1 - var(--tw-space-y-reverse)));}}"],
+  ["space-y-8",".space-y-8 {:where(& > :not(:last-child)) {--tw-space-y-reverse: 0;margin-block-start: calc(calc(0.25rem * 8) * var(--tw-space-y-reverse));margin-block-end: calc(calc(0.25rem * 8) * calc(1 - var(--tw-space-y-reverse)));}}"],
+  ["gap-x-6",".gap-x-6 {column-gap: calc(0.25rem * 6);}"],
+  ["gap-y-2",".gap-y-2 {row-gap: calc(0.25rem * 2);}"],
+  ["divide-y",".divide-y {:where(& > :not(:last-child)) {--tw-divide-y-reverse: 0;border-bottom-style: var(--tw-border-style);border-top-style: var(--tw-border-style);border-top-width: calc(1px * var(--tw-divide-y-reverse));border-bottom-width: calc(1px * calc(1 - var(--tw-divide-y-reverse)));}}"],
+  ["self-start",".self-start {align-self: flex-start;}"],
+  ["truncate",".truncate {overflow: hidden;text-overflow: ellipsis;white-space: nowrap;}"],
+  ["overflow-hidden",".overflow-hidden {overflow: hidden;}"],
+  ["overflow-y-auto",".overflow-y-auto {overflow-y: auto;}"],
+  ["rounded-2xl",".rounded-2xl {border-radius: 1rem;}"],
+  ["rounded-full",".rounded-full {border-radius: calc(infinity * 1px);}"],
+  ["rounded-lg",".rounded-lg {border-radius: 0.5rem;}"],
+  ["rounded-md",".rounded-md {border-radius: 0.375rem;}"],
+  ["rounded-xl",".rounded-xl {border-radius: 0.75rem;}"],
+  ["border",".border {border-style: var(--tw-border-style);border-width: 1px;}"],
+  ["border-2",".border-2 {border-style: var(--tw-border-style);border-width: 2px;}"],
+  ["border-t",".border-t {border-top-style: var(--tw-border-style);border-top-width: 1px;}"],
+  ["border-b",".border-b {border-bottom-style: var(--tw-border-style);border-bottom-width: 1px;}"],
+  ["border-gray-900",".border-gray-900 {border-color: oklch(21% 0.034 264.665);}"],
+  ["bg-gray-100",".bg-gray-100 {background-color: oklch(96.7% 0.003 264.542);}"],
+  ["bg-gray-200",".bg-gray-200 {background-color: oklch(92.8% 0.006 264.531);}"],
+  ["bg-transparent",".bg-transparent {background-color: transparent;}"],
+  ["object-contain",".object-contain {object-fit: contain;}"],
+  ["object-cover",".object-cover {object-fit: cover;}"],
+  ["object-left",".object-left {object-position: left;}"],
+  ["p-0",".p-0 {padding: calc(0.25rem * 0);}"],
+  ["p-4",".p-4 {padding: calc(0.25rem * 4);}"],
+  ["p-6",".p-6 {padding: calc(0.25rem * 6);}"],
+  ["p-8",".p-8 {padding: calc(0.25rem * 8);}"],
+  ["p-10",".p-10 {padding: calc(0.25rem * 10);}"],
+  ["p-14",".p-14 {padding: calc(0.25rem * 14);}"],
+  ["p-16",".p-16 {padding: calc(0.25rem * 16);}"],
+  ["p-24",".p-24 {padding: calc(0.25rem * 24);}"],
+  ["px-0",".px-0 {padding-inline: calc(0.25rem * 0);}"],
+  ["px-2",".px-2 {padding-inline: calc(0.25rem * 2);}"],
+  ["px-2.5",".px-2\\.5 {padding-inline: calc(0.25rem * 2.5);}"],
+  ["px-4",".px-4 {padding-inline: calc(0.25rem * 4);}"],
+  ["px-6",".px-6 {padding-inline: calc(0.25rem * 6);}"],
+  ["px-8",".px-8 {padding-inline: calc(0.25rem * 8);}"],
+  ["px-10",".px-10 {padding-inline: calc(0.25rem * 10);}"],
+  ["py-1",".py-1 {padding-block: calc(0.25rem * 1);}"],
+  ["py-1.5",".py-1\\.5 {padding-block: calc(0.25rem * 1.5);}"],
+  ["py-2",".py-2 {padding-block: calc(0.25rem * 2);}"],
+  ["py-2.5",".py-2\\.5 {padding-block: calc(0.25rem * 2.5);}"],
+  ["py-3",".py-3 {padding-block: calc(0.25rem * 3);}"],
+  ["py-4",".py-4 {padding-block: calc(0.25rem * 4);}"],
+  ["py-5",".py-5 {padding-block: calc(0.25rem * 5);}"],
+  ["py-8",".py-8 {padding-block: calc(0.25rem * 8);}"],
+  ["py-16",".py-16 {padding-block: calc(0.25rem * 16);}"],
+  ["py-32",".py-32 {padding-block: calc(0.25rem * 32);}"],
+  ["py-36",".py-36 {padding-block: calc(0.25rem * 36);}"],
+  ["pt-1",".pt-1 {padding-top: calc(0.25rem * 1);}"],
+  ["pt-4",".pt-4 {padding-top: calc(0.25rem * 4);}"],
+  ["pt-6",".pt-6 {padding-top: calc(0.25rem * 6);}"],
+  ["pt-12",".pt-12 {padding-top: calc(0.25rem * 12);}"],
+  ["pb-1",".pb-1 {padding-bottom: calc(0.25rem * 1);}"],
+  ["pb-4",".pb-4 {padding-bottom: calc(0.25rem * 4);}"],
+  ["text-center",".text-center {text-align: center;}"],
+  ["text-right",".text-right {text-align: right;}"],
+  ["text-2xl",".text-2xl {font-size: 1.5rem;line-height: var(--tw-leading, calc(2 / 1.5));}"],
+  ["text-3xl",".text-3xl {font-size: 1.875rem;line-height: var(--tw-leading, calc(2.25 / 1.875));}"],
+  ["text-4xl",".text-4xl {font-size: 2.25rem;line-height: var(--tw-leading, calc(2.5 / 2.25));}"],
+  ["text-6xl",".text-6xl {font-size: 3.75rem;line-height: var(--tw-leading, 1);}"],
+  ["text-8xl",".text-8xl {font-size: 6rem;line-height: var(--tw-leading, 1);}"],
+  ["text-base",".text-base {font-size: 1rem;line-height: var(--tw-leading, calc(1.5 / 1));}"],
+  ["text-lg",".text-lg {font-size: 1.125rem;line-height: var(--tw-leading, calc(1.75 / 1.125));}"],
+  ["text-sm",".text-sm {font-size: 0.875rem;line-height: var(--tw-leading, calc(1.25 / 0.875));}"],
+  ["text-xl",".text-xl {font-size: 1.25rem;line-height: var(--tw-leading, calc(1.75 / 1.25));}"],
+  ["text-xs",".text-xs {font-size: 0.75rem;line-height: var(--tw-leading, calc(1 / 0.75));}"],
+  ["text-[10px]",".text-\\[10px\\] {font-size: 10px;}"],
+  ["leading-[5.5rem]",".leading-\\[5\\.5rem\\] {--tw-leading: 5.5rem;line-height: 5.5rem;}"],
+  ["leading-none",".leading-none {--tw-leading: 1;line-height: 1;}"],
+  ["leading-relaxed",".leading-relaxed {--tw-leading: 1.625;line-height: 1.625;}"],
+  ["leading-tight",".leading-tight {--tw-leading: 1.25;line-height: 1.25;}"],
+  ["font-bold",".font-bold {--tw-font-weight: 700;font-weight: 700;}"],
+  ["font-medium",".font-medium {--tw-font-weight: 500;font-weight: 500;}"],
+  ["font-semibold",".font-semibold {--tw-font-weight: 600;font-weight: 600;}"],
+  ["tracking-tight",".tracking-tight {--tw-tracking: -0.025em;letter-spacing: -0.025em;}"],
+  ["tracking-wide",".tracking-wide {--tw-tracking: 0.025em;letter-spacing: 0.025em;}"],
+  ["tracking-widest",".tracking-widest {--tw-tracking: 0.1em;letter-spacing: 0.1em;}"],
+  ["whitespace-nowrap",".whitespace-nowrap {white-space: nowrap;}"],
+  ["text-gray-100",".text-gray-100 {color: oklch(96.7% 0.003 264.542);}"],
+  ["text-gray-400",".text-gray-400 {color: oklch(70.7% 0.022 261.325);}"],
+  ["text-gray-900",".text-gray-900 {color: oklch(21% 0.034 264.665);}"],
+  ["text-white",".text-white {color: #fff;}"],
+  ["uppercase",".uppercase {text-transform: uppercase;}"],
+  ["underline",".underline {text-decoration-line: underline;}"],
+  ["underline-offset-4",".underline-offset-4 {text-underline-offset: 4px;}"],
+  ["antialiased",".antialiased {-webkit-font-smoothing: antialiased;-moz-osx-font-smoothing: grayscale;}"],
+  ["opacity-20",".opacity-20 {opacity: 20%;}"],
+  ["opacity-60",".opacity-60 {opacity: 60%;}"],
+  ["shadow-lg",".shadow-lg {--tw-shadow: 0 10px 15px -3px var(--tw-shadow-color, rgb(0 0 0 / 0.1)), 0 4px 6px -4px var(--tw-shadow-color, rgb(0 0 0 / 0.1));box-shadow: var(--tw-inset-shadow), var(--tw-inset-ring-shadow), var(--tw-ring-offset-shadow), var(--tw-ring-shadow), var(--tw-shadow);}"],
+  ["transition-colors",".transition-colors {transition-property: color, background-color, border-color, outline-color, text-decoration-color, fill, stroke, --tw-gradient-from, --tw-gradient-via, --tw-gradient-to;transition-timing-function: var(--tw-ease, cubic-bezier(0.4, 0, 0.2, 1));transition-duration: var(--tw-duration, 150ms);}"],
+  ["transition-opacity",".transition-opacity {transition-property: opacity;transition-timing-function: var(--tw-ease, cubic-bezier(0.4, 0, 0.2, 1));transition-duration: var(--tw-duration, 150ms);}"],
+  ["outline-none",".outline-none {--tw-outline-style: none;outline-style: none;}"],
+  ["hover:bg-gray-900",".hover\\:bg-gray-900 {&:hover {@media (hover: hover) {background-color: oklch(21% 0.034 264.665);}}}"],
+  ["hover:text-white",".hover\\:text-white {&:hover {@media (hover: hover) {color: #fff;}}}"],
+  ["hover:opacity-60",".hover\\:opacity-60 {&:hover {@media (hover: hover) {opacity: 60%;}}}"],
+  ["hover:opacity-80",".hover\\:opacity-80 {&:hover {@media (hover: hover) {opacity: 80%;}}}"],
+  ["disabled:opacity-50",".disabled\\:opacity-50 {&:disabled {opacity: 50%;}}"],
+]
+
+/** `@property` rules and their fallback initial values, keyed by custom property. */
+export const PROPERTIES: Record<string, { rule: string; initial: string }> = {
+  "--tw-space-y-reverse": {"rule":"@property --tw-space-y-reverse {syntax: \"*\";inherits: false;initial-value: 0;}","initial":"--tw-space-y-reverse:0;"},
+  "--tw-divide-y-reverse": {"rule":"@property --tw-divide-y-reverse {syntax: \"*\";inherits: false;initial-value: 0;}","initial":"--tw-divide-y-reverse:0;"},
+  "--tw-border-style": {"rule":"@property --tw-border-style {syntax: \"*\";inherits: false;initial-value: solid;}","initial":"--tw-border-style:solid;"},
+  "--tw-leading": {"rule":"@property --tw-leading {syntax: \"*\";inherits: false;}","initial":"--tw-leading:initial;"},
+  "--tw-font-weight": {"rule":"@property --tw-font-weight {syntax: \"*\";inherits: false;}","initial":"--tw-font-weight:initial;"},
+  "--tw-tracking": {"rule":"@property --tw-tracking {syntax: \"*\";inherits: false;}","initial":"--tw-tracking:initial;"},
+  "--tw-shadow": {"rule":"@property --tw-shadow {syntax: \"*\";inherits: false;initial-value: 0 0 #0000;}","initial":"--tw-shadow:0 0 #0000;"},
+  "--tw-shadow-color": {"rule":"@property --tw-shadow-color {syntax: \"*\";inherits: false;}","initial":"--tw-shadow-color:initial;"},
+  "--tw-shadow-alpha": {"rule":"@property --tw-shadow-alpha {syntax: \"<percentage>\";inherits: false;initial-value: 100%;}","initial":"--tw-shadow-alpha:100%;"},
+  "--tw-inset-shadow": {"rule":"@property --tw-inset-shadow {syntax: \"*\";inherits: false;initial-value: 0 0 #0000;}","initial":"--tw-inset-shadow:0 0 #0000;"},
+  "--tw-inset-shadow-color": {"rule":"@property --tw-inset-shadow-color {syntax: \"*\";inherits: false;}","initial":"--tw-inset-shadow-color:initial;"},
+  "--tw-inset-shadow-alpha": {"rule":"@property --tw-inset-shadow-alpha {syntax: \"<percentage>\";inherits: false;initial-value: 100%;}","initial":"--tw-inset-shadow-alpha:100%;"},
+  "--tw-ring-color": {"rule":"@property --tw-ring-color {syntax: \"*\";inherits: false;}","initial":"--tw-ring-color:initial;"},
+  "--tw-ring-shadow": {"rule":"@property --tw-ring-shadow {syntax: \"*\";inherits: false;initial-value: 0 0 #0000;}","initial":"--tw-ring-shadow:0 0 #0000;"},
+  "--tw-inset-ring-color": {"rule":"@property --tw-inset-ring-color {syntax: \"*\";inherits: false;}","initial":"--tw-inset-ring-color:initial;"},
+  "--tw-inset-ring-shadow": {"rule":"@property --tw-inset-ring-shadow {syntax: \"*\";inherits: false;initial-value: 0 0 #0000;}","initial":"--tw-inset-ring-shadow:0 0 #0000;"},
+  "--tw-ring-inset": {"rule":"@property --tw-ring-inset {syntax: \"*\";inherits: false;}","initial":"--tw-ring-inset:initial;"},
+  "--tw-ring-offset-width": {"rule":"@property --tw-ring-offset-width {syntax: \"<length>\";inherits: false;initial-value: 0px;}","initial":"--tw-ring-offset-width:0px;"},
+  "--tw-ring-offset-color": {"rule":"@property --tw-ring-offset-color {syntax: \"*\";inherits: false;initial-value: #fff;}","initial":"--tw-ring-offset-color:#fff;"},
+  "--tw-ring-offset-shadow": {"rule":"@property --tw-ring-offset-shadow {syntax: \"*\";inherits: false;initial-value: 0 0 #0000;}","initial":"--tw-ring-offset-shadow:0 0 #0000;"},
+}
+
+export const PROPERTIES_SUPPORTS = "((-webkit-hyphens: none) and (not (margin-trim: inline))) or ((-moz-orient: inline) and (not (color:rgb(from red r g b))))"
+
+export const KEYFRAMES: Record<string, string> = {
+
+}
@@ -0,0 +1,34 @@
+import { BASE_CSS, UTILITIES, PROPERTIES, PROPERTIES_SUPPORTS, KEYFRAMES } from './styles.generated.ts'
+
+const CLASS_ATTR = /\sclass="([^"]*)"/g
+
+/**
+ * Static stylesheet for a rendered page: the preflight reset plus the precompiled rules
+ * for exactly the utility classes that appear in `html`.
+ */
+export function buildPageStylesheet(html: string): string {
+  const used = new Set<string>()
+  for (const [, value] of html.matchAll(CLASS_ATTR)) {
+    for (const cls of value.split(/\s+/)) if (cls) used.add(cls)
+  }
+
+  const utilities = UTILITIES
+    .filter(([cls]) => used.has(cls))
+    .map(([, rule]) => rule)
+    .join('')
+
+  // Registered custom properties and keyframes only travel with the rules that reference them
+  const properties = Object.entries(PROPERTIES).filter(([name]) => utilities.includes(name))
+  const keyframes = Object.entries(KEYFRAMES)
+    .filter(([name]) => new RegExp(`animation:[^;]*\\b${name}\\b`).test(utilities))
+    .map(([, rule]) => rule)
+
+  if (!properties.length) return BASE_CSS + utilities + keyframes.join('')
+
+  return '@layer properties;'
+    + BASE_CSS
+    + utilities
+    + properties.map(([, p]) => p.rule).join('')
+    + `@layer properties {@supports ${PROPERTIES_SUPPORTS} {*, ::before, ::after, ::backdrop {${properties.map(([, p]) => p.initial).join('')}}}}`
+    + keyframes.join('')
+}
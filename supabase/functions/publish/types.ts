@@ -68,6 +68,7 @@ export interface Collection {
   cover_url?: string
   price?: number
   billing_period?: 'monthly' | 'yearly'
+  position: string
   items: CollectionItem[]
 }
 
@@ -79,12 +80,29 @@ export interface CollectionSettings {
   style: 'grid' | 'list' | 'cards'
 }
 
+export interface StoreVariantOption {
+  value: string
+  inventory: number
+}
+
+export interface StoreVariant {
+  id: string
+  name: string
+  options: StoreVariantOption[]
+}
+
 export interface StoreItem {
   id: string
   title: string
   description: string
   image: string
   price: number
+  product_type?: 'physical' | 'digital'
+  variants?: StoreVariant[]
+  inventory?: number
+  track_inventory?: boolean
+  file_path?: string // digital items: object in the private `downloads` bucket
+  file_url?: string  // digital items uploaded before private storage (public link)
   content?: string
   position: string
 }
@@ -110,6 +128,10 @@ export interface CampaignContent {
   placeholder: string
 }
 
+export interface CampaignSettings {
+  show_name_field?: boolean
+}
+
 export interface TextContent {
   title?: string
   subtitle?: string
@@ -145,11 +167,15 @@ export interface Section {
   content: Record<string, unknown> | null
 }
 
+// What `lands.campaign_integration` holds. Keys, headers and the signing secret are in
+// Vault — see subscribe/credentials.ts.
 export interface CampaignConfig {
-  api_key?: string
   list_id?: string
+  list_name?: string
   webhook_url?: string
-  headers?: Record<string, string>
+  header_names?: string[]            // custom provider; values are secret
+  api_key_hint?: string              // "••••1234"
+  signing_secret_created_at?: string
 }
 
 export interface CampaignIntegration {
@@ -169,4 +195,29 @@ export interface Land {
   meta_title?: string
   meta_description?: string
   og_image?: string
+  currency?: string // stores' currency, ISO 4217 lower-case
+}
+
+export interface PasswordGate {
+  salt: string       // base64
+  hash: string       // base64 PBKDF2-SHA256
+  iterations: number
+}
+
+/**
+ * Members area of a land with monetize collections, stored as JSON under `<handle>:members`.
+ * The worker serves `login` at /members and each item's page at /members/<itemId> — items of
+ * paid collections only to visitors signed in with an active membership of `collectionId`.
+ */
+export interface MembersPages {
+  landId: string
+  login: string
+  items: Record<string, { collectionId: string; paid: boolean; html: string }>
+}
+
+/** Metadata stored alongside the page HTML in LANDS_PAGES — read by the worker. */
+export interface PageMetadata {
+  version: string
+  landId: string // attributes the worker's analytics events
+  gate?: PasswordGate
 }
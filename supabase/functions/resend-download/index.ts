@@ -0,0 +1,77 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { linkExpiry, sendDownloadEmail } from '../download/delivery.ts'
+
+// Orders dashboard "Resend download link": gives the buyer a fresh allowance (download
+// count reset, new expiry) and emails the download page again. The owner and admins —
+// `land_can(…, 'manage_orders')`.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+
+    // ─── Auth: user-context client — orders RLS limits it to the land's members ───
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+
+    const { data: { user }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !user) return json({ error: 'Unauthorized' }, 401)
+
+    const { orderId } = await req.json() as { orderId: string }
+    if (!orderId) return json({ error: 'orderId is required' }, 400)
+
+    const { data: order } = await supabaseUser
+      .from('orders')
+      .select('id, land_id, buyer_email, download_token, lands(title, handle)')
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (!order) return json({ error: 'Order not found' }, 404)
+
+    const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: order.land_id, p_action: 'manage_orders' })
+    if (!allowed) return json({ error: 'Forbidden' }, 403)
+
+    if (!order.download_token) return json({ error: 'This order has no digital items' }, 400)
+    if (!order.buyer_email) return json({ error: 'This order has no buyer email' }, 400)
+
+    // ─── Admin client: order_downloads is written by the service role only ───
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+    const { data: downloads, error: updateError } = await supabaseAdmin
+      .from('order_downloads')
+      .update({ download_count: 0, expires_at: linkExpiry() })
+      .eq('order_id', order.id)
+      .select('title')
+    if (updateError) throw new Error(updateError.message)
+
+    const land = order.lands as unknown as { title: string | null; handle: string } | null
+    const sent = await sendDownloadEmail(
+      order.buyer_email,
+      land?.title || land?.handle || 'Lands',
+      order.download_token,
+      (downloads ?? []).map((d) => d.title),
+    )
+    if (!sent) return json({ error: 'Could not send the email' }, 502)
+
+    return json({ sent: true })
+  } catch (err) {
+    return json({ error: (err as Error).message }, 500)
+  }
+})
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,87 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Store currency for a land, limited to what its connected Stripe account can charge in.
+//   POST { landId }            → { currency, supported }
+//   POST { landId, currency }  → same, after saving the new currency
+// Any member can read it; changing it is for whoever manages Stripe (`land_can(…, 'manage_stripe')`).
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Currencies accounts in the connected account's country can charge in
+async function supportedCurrencies(stripeAccountId: string, stripeSecretKey: string): Promise<string[]> {
+  const headers = { Authorization: `Bearer ${stripeSecretKey}` }
+
+  const account = await (await fetch(`https://api.stripe.com/v1/accounts/${stripeAccountId}`, { headers })).json()
+  if (account.error) throw new Error(account.error.message)
+
+  const spec = await (await fetch(`https://api.stripe.com/v1/country_specs/${account.country}`, { headers })).json()
+  if (spec.error) throw new Error(spec.error.message)
+
+  return (spec.supported_payment_currencies as string[]).sort()
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY')
+    if (!stripeSecretKey) return json({ error: 'STRIPE_SECRET_KEY not configured' }, 500)
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) return json({ error: 'Unauthorized' }, 401)
+
+    const { landId, currency } = await req.json() as { landId: string; currency?: string }
+    if (!landId) return json({ error: 'landId is required' }, 400)
+
+    const { data: land } = await supabase
+      .from('lands')
+      .select('id, currency, stripe_account_id')
+      .eq('id', landId)
+      .maybeSingle()
+
+    if (!land) return json({ error: 'Land not found' }, 404)
+    if (!land.stripe_account_id) return json({ error: 'Connect Stripe before choosing a currency' }, 400)
+
+    const supported = await supportedCurrencies(land.stripe_account_id, stripeSecretKey)
+
+    if (currency === undefined) return json({ currency: land.currency, supported })
+
+    const { data: allowed } = await supabase.rpc('land_can', { p_land_id: land.id, p_action: 'manage_stripe' })
+    if (!allowed) return json({ error: 'Forbidden' }, 403)
+
+    const code = currency.toLowerCase()
+    if (!supported.includes(code)) {
+      return json({ error: `Your Stripe account can't charge in ${currency.toUpperCase()}` }, 400)
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('lands')
+      .update({ currency: code })
+      .eq('id', landId)
+      .select('id')
+    if (updateError) throw new Error(updateError.message)
+    if (!updated?.length) return json({ error: 'Land not found' }, 404)
+
+    return json({ currency: code, supported })
+  } catch (err) {
+    console.error('Store currency error:', err)
+    return json({ error: (err as Error).message }, 500)
+  }
+})
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
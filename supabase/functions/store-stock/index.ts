@@ -0,0 +1,84 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { choosableVariants, isOptionSoldOut, isSoldOut } from '../publish/stock.ts'
+import type { Section, StoreContent } from '../publish/types.ts'
+
+// Live stock for a published page's Buy buttons. Pages are static, so the checkout script
+// asks here on load which tracked items and options are sold out (after open reservations).
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+}
+
+interface ItemStock {
+  soldOut: boolean
+  options: Record<string, string[]> // variantId → sold-out option values
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const landId = new URL(req.url).searchParams.get('landId')
+    if (!landId) return json({ error: 'landId is required' }, 400)
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    )
+
+    const { data: land } = await supabase
+      .from('lands')
+      .select('sections, is_published')
+      .eq('id', landId)
+      .maybeSingle()
+
+    if (!land?.is_published) return json({ error: 'Land not found' }, 404)
+
+    const { data: reservations } = await supabase
+      .from('stock_reservations')
+      .select('item_id, selection, quantity')
+      .eq('land_id', landId)
+      .gt('expires_at', new Date().toISOString())
+
+    const items: Record<string, ItemStock> = {}
+    const sections = (Array.isArray(land.sections) ? land.sections : []) as Section[]
+
+    for (const section of sections) {
+      const stores = ((section.content ?? {}) as unknown as StoreContent).stores ?? []
+      for (const item of stores.flatMap((s) => s.items ?? [])) {
+        if (!item.track_inventory) continue
+
+        const held = (reservations ?? []).filter((r) => r.item_id === item.id)
+        const reserved = (variantId: string | null, value: string | null) => held
+          .filter((r) => variantId === null || (r.selection as Record<string, string>)[variantId] === value)
+          .reduce((sum, r) => sum + r.quantity, 0)
+
+        items[item.id] = {
+          soldOut: isSoldOut(item, reserved),
+          options: Object.fromEntries(choosableVariants(item).map((v) => [
+            v.id,
+            v.options.filter((o) => isOptionSoldOut(item, o, reserved(v.id, o.value))).map((o) => o.value),
+          ])),
+        }
+      }
+    }
+
+    return new Response(JSON.stringify({ items }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    })
+  } catch (err) {
+    console.error('Store stock error:', err)
+    return json({ error: 'Internal error' }, 500)
+  }
+})
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
@@ -1,27 +1,66 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { choosableVariants, variantLabel } from '../publish/stock.ts'
+import { DEFAULT_CURRENCY, toMinorUnits } from '../publish/currency.ts'
+import { errorResponse, ipKey, isRateLimited } from '../publish/guard.ts'
+import type { StoreItem } from '../publish/types.ts'
 
+const APP_ORIGIN = Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app'
+
+// Called from published pages (*.lands.app and custom domains) as well as the app
 const corsHeaders = {
-  'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
+  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Countries Stripe Checkout collects a shipping address for (physical items only)
+const SHIPPING_COUNTRIES = [
+  'US', 'CA', 'GB', 'IE', 'AU', 'NZ', 'DE', 'FR', 'ES', 'IT', 'NL', 'BE', 'AT', 'CH',
+  'SE', 'NO', 'DK', 'FI', 'PT', 'PL', 'JP', 'SG', 'HK', 'MX', 'BR',
+]
+
+// Stripe's minimum session lifetime. Reserved stock is held a little longer so it's never
+// released while the session can still be paid.
+const SESSION_TTL_SECONDS = 30 * 60
+const RESERVATION_TTL = '35 minutes'
+
 const PLATFORM_FEE_PERCENT: Record<string, number> = {
   free: 5,
   paid: 2,
 }
 
+const MAX_LINES = 20
+const MAX_QUANTITY = 99
+
+interface CartLine {
+  sectionId: string
+  storeId: string
+  itemId: string
+  selection?: Record<string, unknown>
+  quantity?: number
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
   try {
-    const { landId, sectionId, storeId, itemId, origin } = await req.json()
+    const body = await req.json()
+    const { landId, origin } = body
+    // Pages published before the cart post a single item instead of `lines`
+    const lines: CartLine[] = Array.isArray(body.lines)
+      ? body.lines
+      : [{ sectionId: body.sectionId, storeId: body.storeId, itemId: body.itemId, selection: body.selection }]
+
+    if (!lines.length || lines.length > MAX_LINES) {
+      return errorResponse('invalid_request', corsHeaders, { message: 'Cart is empty or too large' })
+    }
 
     const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY')
     if (!stripeSecretKey) {
-      return new Response(JSON.stringify({ error: 'STRIPE_SECRET_KEY not configured' }), { status: 500, headers: corsHeaders })
+      console.error('STRIPE_SECRET_KEY not configured')
+      return errorResponse('unavailable', corsHeaders)
     }
 
     // Look up land and find the item
@@ -31,29 +70,131 @@ serve(async (req) => {
     )
     const { data: land, error: landError } = await supabase
       .from('lands')
-      .select('sections, stripe_account_id, plan')
+      .select('handle, sections, currency, stripe_account_id, plan, custom_domain, custom_domain_status')
       .eq('id', landId)
       .single()
 
     if (landError || !land) {
-      return new Response(JSON.stringify({ error: 'Land not found' }), { status: 404, headers: corsHeaders })
+      return errorResponse('not_found', corsHeaders, { message: 'Land not found' })
     }
     if (!land.stripe_account_id) {
-      return new Response(JSON.stringify({ error: 'No Stripe account connected for this land' }), { status: 400, headers: corsHeaders })
+      return errorResponse('unavailable', corsHeaders, { message: 'This store isn\'t taking payments right now.' })
+    }
+
+    // Stripe redirects back to `origin` — only the land's own hosts and the app are accepted
+    const allowedOrigins = [APP_ORIGIN, `https://${land.handle}.lands.app`]
+    if (land.custom_domain && land.custom_domain_status === 'active') {
+      allowedOrigins.push(`https://${land.custom_domain}`)
+    }
+    if (!allowedOrigins.includes(origin)) {
+      return errorResponse('invalid_request', corsHeaders, { message: 'Invalid origin' })
+    }
+
+    // Every session holds stock for 35 minutes, so runaway checkouts could empty a store
+    if (await isRateLimited(supabase, [
+      { key: await ipKey('stripe-checkout', req), limit: 10, window: '10 minutes' },
+      { key: `stripe-checkout:land:${landId}`, limit: 100, window: '10 minutes' },
+    ])) {
+      return errorResponse('rate_limited', corsHeaders)
     }
 
-    // Find the item price/title from section content
-    const section = land.sections.find((s: any) => s.id === sectionId)
-    const store = section?.content?.stores?.find((s: any) => s.id === storeId)
-    const item = store?.items?.find((i: any) => i.id === itemId)
+    // Price every line from the saved section content, never from the page
+    const resolved: { line: CartLine; item: StoreItem; picked: Record<string, string>; quantity: number }[] = []
+    for (const line of lines) {
+      const section = land.sections.find((s: any) => s.id === line.sectionId)
+      const store = section?.content?.stores?.find((s: any) => s.id === line.storeId)
+      const item: StoreItem | undefined = store?.items?.find((i: any) => i.id === line.itemId)
 
-    if (!item) {
-      return new Response(JSON.stringify({ error: 'Item not found' }), { status: 404, headers: corsHeaders })
+      if (!item || !(item.price > 0)) {
+        return errorResponse('not_found', corsHeaders, { message: 'Item not found', itemId: line.itemId })
+      }
+
+      const quantity = Number(line.quantity ?? 1)
+      if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUANTITY) {
+        return errorResponse('invalid_request', corsHeaders, { message: 'Invalid quantity', itemId: item.id })
+      }
+
+      // Every variant needs one of its own options
+      const picked: Record<string, string> = {}
+      for (const variant of choosableVariants(item)) {
+        const value = (line.selection ?? {})[variant.id]
+        if (!variant.options.some((o) => o.value === value)) {
+          return errorResponse('invalid_request', corsHeaders, { message: `Choose a ${variant.name || 'option'} for ${item.title}`, itemId: item.id })
+        }
+        picked[variant.id] = value as string
+      }
+
+      resolved.push({ line, item, picked, quantity })
+    }
+
+    // Hold the stock while the buyer is on Checkout (null for items that don't track it).
+    // One line short releases everything already held.
+    const reservationIds: (string | null)[] = []
+    const release = () => {
+      const held = reservationIds.filter((id): id is string => !!id)
+      return held.length ? supabase.from('stock_reservations').delete().in('id', held) : Promise.resolve()
+    }
+
+    for (const { line, item, picked, quantity } of resolved) {
+      const { data: reservationId, error: reserveError } = await supabase.rpc('reserve_stock', {
+        p_land_id: landId,
+        p_store_id: line.storeId,
+        p_item_id: item.id,
+        p_selection: picked,
+        p_quantity: quantity,
+        p_ttl: RESERVATION_TTL,
+      })
+      if (reserveError) {
+        await release()
+        if (reserveError.message.includes('sold_out')) {
+          return errorResponse('sold_out', corsHeaders, { message: `${item.title} is sold out`, soldOut: true, itemId: item.id })
+        }
+        console.error('Stock reservation error:', reserveError.message)
+        return errorResponse('internal', corsHeaders)
+      }
+      reservationIds.push(reservationId)
     }
 
+    // Platform fee is taken once, on the cart total
     const feePercent = PLATFORM_FEE_PERCENT[land.plan] ?? PLATFORM_FEE_PERCENT.free
-    const unitAmount = Math.round(item.price * 100)
-    const feeAmount = Math.round(unitAmount * feePercent / 100)
+    const currency: string = land.currency ?? DEFAULT_CURRENCY
+    const totalAmount = resolved.reduce((sum, r) => sum + toMinorUnits(r.item.price, currency) * r.quantity, 0)
+    const feeAmount = Math.round(totalAmount * feePercent / 100)
+
+    const params = new URLSearchParams({
+      'payment_method_types[]': 'card',
+      'mode': 'payment',
+      'success_url': `${origin}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+      'cancel_url': `${origin}/checkout/cancel`,
+      'expires_at': String(Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS),
+      'payment_intent_data[application_fee_amount]': String(feeAmount),
+      'payment_intent_data[transfer_data][destination]': land.stripe_account_id,
+      // Read back by stripe-connect-webhook to record the order
+      'metadata[land_id]': landId,
+      'metadata[fee_amount]': String(feeAmount),
+    })
+
+    // Each line's product metadata says which item and options it was, for the webhook
+    resolved.forEach(({ line, item, picked, quantity }, i) => {
+      const label = variantLabel(item, picked)
+      const prefix = `line_items[${i}]`
+      params.set(`${prefix}[price_data][currency]`, currency)
+      params.set(`${prefix}[price_data][product_data][name]`, label ? `${item.title} (${label})` : item.title)
+      params.set(`${prefix}[price_data][product_data][metadata][store_id]`, line.storeId)
+      params.set(`${prefix}[price_data][product_data][metadata][item_id]`, item.id)
+      params.set(`${prefix}[price_data][product_data][metadata][title]`, item.title)
+      params.set(`${prefix}[price_data][product_data][metadata][selection]`, JSON.stringify(picked))
+      if (label) params.set(`${prefix}[price_data][product_data][metadata][variant]`, label)
+      if (reservationIds[i]) params.set(`${prefix}[price_data][product_data][metadata][reservation_id]`, reservationIds[i]!)
+      params.set(`${prefix}[price_data][unit_amount]`, String(toMinorUnits(item.price, currency)))
+      params.set(`${prefix}[quantity]`, String(quantity))
+    })
+
+    if (resolved.some((r) => r.item.product_type === 'physical')) {
+      SHIPPING_COUNTRIES.forEach((country, i) => {
+        params.append(`shipping_address_collection[allowed_countries][${i}]`, country)
+      })
+    }
 
     // Create Stripe Checkout session (destination charge — platform collects then transfers)
     const res = await fetch('https://api.stripe.com/v1/checkout/sessions', {
@@ -62,27 +203,19 @@ serve(async (req) => {
         Authorization: `Bearer ${stripeSecretKey}`,
         'Content-Type': 'application/x-www-form-urlencoded',
       },
-      body: new URLSearchParams({
-        'payment_method_types[]': 'card',
-        'line_items[0][price_data][currency]': 'usd',
-        'line_items[0][price_data][product_data][name]': item.title,
-        'line_items[0][price_data][unit_amount]': String(unitAmount),
-        'line_items[0][quantity]': '1',
-        'mode': 'payment',
-        'success_url': `${origin}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
-        'cancel_url': `${origin}/checkout/cancel`,
-        'payment_intent_data[application_fee_amount]': String(feeAmount),
-        'payment_intent_data[transfer_data][destination]': land.stripe_account_id,
-      }),
+      body: params,
     })
 
     const session = await res.json()
     if (session.error) {
-      return new Response(JSON.stringify({ error: session.error.message }), { status: 400, headers: corsHeaders })
+      await release()
+      console.error('Stripe checkout session error:', session.error.message)
+      return errorResponse('unavailable', corsHeaders, { message: 'Checkout is unavailable right now.' })
     }
 
     return new Response(JSON.stringify({ url: session.url }), { status: 200, headers: corsHeaders })
   } catch (e) {
-    return new Response(JSON.stringify({ error: String(e) }), { status: 500, headers: corsHeaders })
+    console.error('Checkout error:', e)
+    return errorResponse('internal', corsHeaders)
   }
 })
@@ -0,0 +1,339 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { digitalFiles, linkExpiry, MAX_DOWNLOADS, newDownloadToken, sendDownloadEmail } from '../download/delivery.ts'
+import { createLoginLink, sendLoginEmail } from '../member-login/login.ts'
+
+// Records store purchases made through stripe-checkout and memberships started through
+// membership-checkout. Both are created on the platform account (destination charges), so
+// register this endpoint for the platform's checkout.session.completed,
+// checkout.session.expired, customer.subscription.updated and customer.subscription.deleted
+// events (STRIPE_CONNECT_WEBHOOK_SECRET is its signing secret).
+
+async function verifyStripeSignature(payload: string, sigHeader: string, secret: string): Promise<boolean> {
+  const parts = sigHeader.split(',').reduce((acc: Record<string, string>, part) => {
+    const [k, v] = part.split('=')
+    acc[k] = v
+    return acc
+  }, {})
+
+  const timestamp = parts['t']
+  const expectedSig = parts['v1']
+  if (!timestamp || !expectedSig) return false
+
+  // Reject events older than 5 minutes
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > 300) return false
+
+  const signedPayload = `${timestamp}.${payload}`
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(signedPayload))
+  const computed = Array.from(new Uint8Array(sig)).map(b => b.toString(16).padStart(2, '0')).join('')
+  return computed === expectedSig
+}
+
+interface OrderLine {
+  store_id: string | null
+  item_id: string | null
+  title: string
+  variant: string | null
+  quantity: number
+  amount: number
+  selection: Record<string, string>
+  reservation_id: string | null
+}
+
+// Line items with the product metadata stripe-checkout attached to each
+async function fetchLines(sessionId: string, stripeSecretKey: string): Promise<OrderLine[]> {
+  const res = await fetch(
+    `https://api.stripe.com/v1/checkout/sessions/${sessionId}/line_items?limit=100&expand[]=data.price.product`,
+    { headers: { Authorization: `Bearer ${stripeSecretKey}` } },
+  )
+  const body = await res.json()
+  if (body.error) throw new Error(body.error.message)
+
+  return (body.data ?? []).map((li: any) => {
+    const meta = li.price?.product?.metadata ?? {}
+    return {
+      store_id: meta.store_id ?? null,
+      item_id: meta.item_id ?? null,
+      title: meta.title ?? li.description ?? 'Item',
+      variant: meta.variant ?? null,
+      quantity: li.quantity ?? 1,
+      amount: li.amount_total ?? 0,
+      selection: JSON.parse(meta.selection ?? '{}'),
+      reservation_id: meta.reservation_id ?? null,
+    }
+  })
+}
+
+// API versions before 2024-11 put shipping on the session; newer ones under collected_information
+function shippingAddress(session: any): Record<string, unknown> | null {
+  const shipping = session.collected_information?.shipping_details ?? session.shipping_details
+  if (!shipping?.address) return null
+  return { name: shipping.name ?? null, ...shipping.address }
+}
+
+// API versions from 2025-03 moved the billing period onto the subscription's items
+function periodEnd(subscription: any): string | null {
+  const end = subscription.current_period_end ?? subscription.items?.data?.[0]?.current_period_end
+  return end ? new Date(end * 1000).toISOString() : null
+}
+
+async function fetchSubscription(subscriptionId: string, stripeSecretKey: string): Promise<any> {
+  const res = await fetch(`https://api.stripe.com/v1/subscriptions/${subscriptionId}`, {
+    headers: { Authorization: `Bearer ${stripeSecretKey}` },
+  })
+  const body = await res.json()
+  if (body.error) throw new Error(body.error.message)
+  return body
+}
+
+serve(async (req) => {
+  const webhookSecret = Deno.env.get('STRIPE_CONNECT_WEBHOOK_SECRET')
+  const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY')
+  if (!webhookSecret || !stripeSecretKey) {
+    return new Response('STRIPE_CONNECT_WEBHOOK_SECRET or STRIPE_SECRET_KEY not configured', { status: 500 })
+  }
+
+  const sigHeader = req.headers.get('stripe-signature')
+  if (!sigHeader) return new Response('Missing stripe-signature', { status: 400 })
+
+  const body = await req.text()
+
+  const valid = await verifyStripeSignature(body, sigHeader, webhookSecret)
+  if (!valid) return new Response('Invalid signature', { status: 400 })
+
+  const event = JSON.parse(body)
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  )
+
+  // ── Membership started (membership-checkout) ──
+  if (event.type === 'checkout.session.completed'
+    && event.data.object.mode === 'subscription'
+    && event.data.object.metadata?.collection_id) {
+    const session = event.data.object
+    const metadata = session.metadata
+    const email = (session.customer_details?.email ?? '').toLowerCase()
+
+    let subscription: any
+    try {
+      subscription = await fetchSubscription(session.subscription, stripeSecretKey)
+    } catch (err) {
+      console.error('Subscription fetch error:', err)
+      return new Response(JSON.stringify({ error: 'Failed to load subscription' }), { status: 500 })
+    }
+
+    // Stripe retries until it gets a 2xx — the unique subscription id makes the insert idempotent
+    const { data: inserted, error } = await supabase.from('memberships').upsert({
+      land_id: metadata.land_id,
+      section_id: metadata.section_id ?? null,
+      collection_id: metadata.collection_id,
+      collection_title: metadata.collection_title ?? 'Membership',
+      email,
+      name: session.customer_details?.name ?? null,
+      stripe_customer_id: typeof session.customer === 'string' ? session.customer : null,
+      stripe_subscription_id: subscription.id,
+      status: subscription.status,
+      amount: subscription.items?.data?.[0]?.price?.unit_amount ?? session.amount_total ?? 0,
+      currency: session.currency ?? 'usd',
+      billing_period: metadata.billing_period === 'yearly' ? 'yearly' : 'monthly',
+      current_period_end: periodEnd(subscription),
+    }, { onConflict: 'stripe_subscription_id', ignoreDuplicates: true }).select('id')
+
+    if (error?.code === '23503') {
+      console.error('Membership for deleted land:', metadata.land_id, subscription.id)
+    } else if (error) {
+      console.error('Membership insert error:', error.message)
+      return new Response(JSON.stringify({ error: 'Failed to record membership' }), { status: 500 })
+    }
+
+    // First delivery only: welcome the member with their first sign-in link
+    if (inserted?.length && email && metadata.origin) {
+      const { data: land } = await supabase.from('lands').select('title, handle').eq('id', metadata.land_id).maybeSingle()
+      try {
+        const url = await createLoginLink(supabase, metadata.land_id, email, metadata.origin)
+        await sendLoginEmail(email, land?.title || land?.handle || 'Lands', url, metadata.collection_title)
+      } catch (err) {
+        // They can still request a link from the members page
+        console.error('Welcome sign-in link error:', err)
+      }
+    }
+
+    return new Response(JSON.stringify({ received: true }), { status: 200 })
+  }
+
+  // ── Membership renewed, lapsed or cancelled ──
+  // Plan subscriptions arrive here too when both endpoints listen to these events; they
+  // have no membership row, so the update matches nothing.
+  if (event.type === 'customer.subscription.updated' || event.type === 'customer.subscription.deleted') {
+    const subscription = event.data.object
+    const { error } = await supabase
+      .from('memberships')
+      .update({
+        status: subscription.status,
+        current_period_end: periodEnd(subscription),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('stripe_subscription_id', subscription.id)
+    if (error) {
+      console.error('Membership update error:', error.message)
+      return new Response(JSON.stringify({ error: 'Failed to update membership' }), { status: 500 })
+    }
+    return new Response(JSON.stringify({ received: true }), { status: 200 })
+  }
+
+  // ── Store purchase completed ──
+  if (event.type === 'checkout.session.completed') {
+    const session = event.data.object
+    const metadata = session.metadata ?? {}
+
+    // Plan subscriptions belong to stripe-subscription-webhook; sessions without a land_id
+    // weren't created by stripe-checkout
+    if (session.mode !== 'payment' || !metadata.land_id) {
+      return new Response(JSON.stringify({ received: true }), { status: 200 })
+    }
+    // Delayed payment methods complete the session before the money arrives
+    if (session.payment_status !== 'paid') {
+      return new Response(JSON.stringify({ received: true }), { status: 200 })
+    }
+
+    let lines: OrderLine[]
+    try {
+      lines = await fetchLines(session.id, stripeSecretKey)
+    } catch (err) {
+      console.error('Line items fetch error:', err)
+      return new Response(JSON.stringify({ error: 'Failed to load line items' }), { status: 500 })
+    }
+
+    // Digital items get a download page; files are looked up in the land's current sections
+    const { data: land } = await supabase
+      .from('lands')
+      .select('title, handle, sections')
+      .eq('id', metadata.land_id)
+      .maybeSingle()
+    const files = land ? digitalFiles(Array.isArray(land.sections) ? land.sections : [], lines) : []
+    const downloadToken = files.length ? newDownloadToken() : null
+
+    // Stripe retries until it gets a 2xx — the unique session id makes the insert idempotent
+    const { error } = await supabase.from('orders').upsert({
+      land_id: metadata.land_id,
+      stripe_session_id: session.id,
+      stripe_payment_intent_id: typeof session.payment_intent === 'string' ? session.payment_intent : null,
+      items: lines.map(({ selection: _s, reservation_id: _r, ...line }) => line),
+      amount: session.amount_total ?? 0,
+      fee: Number(metadata.fee_amount ?? 0),
+      currency: session.currency ?? 'usd',
+      buyer_name: session.customer_details?.name ?? null,
+      buyer_email: session.customer_details?.email ?? null,
+      shipping_address: shippingAddress(session),
+      download_token: downloadToken,
+    }, { onConflict: 'stripe_session_id', ignoreDuplicates: true })
+
+    // Land deleted since checkout (foreign key) — nothing to record it against, so don't retry
+    if (error?.code === '23503') {
+      console.error('Order for deleted land:', metadata.land_id, session.id)
+      return new Response(JSON.stringify({ received: true }), { status: 200 })
+    } else if (error) {
+      console.error('Order insert error:', error.message)
+      return new Response(JSON.stringify({ error: 'Failed to record order' }), { status: 500 })
+    }
+
+    // The order as first recorded — a retry fulfils whatever an earlier delivery didn't finish
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, download_token, stock_committed_at, downloads_sent_at')
+      .eq('stripe_session_id', session.id)
+      .single()
+    if (orderError || !order) {
+      console.error('Order lookup error:', orderError?.message)
+      return new Response(JSON.stringify({ error: 'Failed to load order' }), { status: 500 })
+    }
+
+    let failed = false
+
+    // All lines in one transaction, once per order
+    if (!order.stock_committed_at) {
+      const { error: stockError } = await supabase.rpc('commit_order_stock', {
+        p_order_id: order.id,
+        p_lines: lines.filter((l) => l.item_id).map((l) => ({
+          store_id: l.store_id,
+          item_id: l.item_id,
+          selection: l.selection,
+          quantity: l.quantity,
+          reservation_id: l.reservation_id,
+        })),
+      })
+      if (stockError) {
+        console.error('Stock commit error:', stockError.message)
+        failed = true
+      }
+    }
+
+    if (!order.downloads_sent_at && files.length && order.download_token) {
+      // A failed attempt may have written the rows already
+      const { count } = await supabase
+        .from('order_downloads')
+        .select('id', { count: 'exact', head: true })
+        .eq('order_id', order.id)
+
+      let downloadsError: { message: string } | null = null
+      if (!count) {
+        const expiresAt = linkExpiry()
+        const { error: insertError } = await supabase.from('order_downloads').insert(files.map((f) => ({
+          order_id: order.id,
+          item_id: f.item_id,
+          title: f.title,
+          file_path: f.file_path,
+          file_url: f.file_url,
+          max_downloads: MAX_DOWNLOADS,
+          expires_at: expiresAt,
+        })))
+        downloadsError = insertError
+      }
+
+      if (downloadsError) {
+        console.error('Order downloads insert error:', downloadsError.message)
+        failed = true
+      } else if (!session.customer_details?.email || await sendDownloadEmail(
+        session.customer_details.email,
+        land?.title || land?.handle || 'Lands',
+        order.download_token,
+        files.map((f) => f.title),
+      )) {
+        await supabase.from('orders').update({ downloads_sent_at: new Date().toISOString() }).eq('id', order.id)
+      } else {
+        failed = true
+      }
+    }
+
+    if (failed) {
+      return new Response(JSON.stringify({ error: 'Failed to fulfil order' }), { status: 500 })
+    }
+  }
+
+  // ── Checkout abandoned: release the stock it held ──
+  if (event.type === 'checkout.session.expired') {
+    const session = event.data.object
+    if (session.metadata?.land_id) {
+      try {
+        const held = (await fetchLines(session.id, stripeSecretKey))
+          .map((l) => l.reservation_id)
+          .filter((id): id is string => !!id)
+        if (held.length) await supabase.from('stock_reservations').delete().in('id', held)
+      } catch (err) {
+        // Reservations lapse on their own a few minutes later
+        console.error('Reservation release error:', err)
+      }
+    }
+  }
+
+  return new Response(JSON.stringify({ received: true }), { status: 200 })
+})
@@ -40,7 +40,10 @@ serve(async (req) => {
     )
     const { data: { user }, error: authError } = await supabaseForAuth.auth.getUser()
     if (authError || !user) return err({ error: 'Invalid or expired token' }, 401)
-    const userId = user.id
+
+    // Only the owner connects the account sales pay out to
+    const { data: allowed } = await supabaseForAuth.rpc('land_can', { p_land_id: landId, p_action: 'manage_stripe' })
+    if (!allowed) return err({ error: 'Forbidden' }, 403)
 
     // Exchange OAuth code for Stripe access token
     const tokenRes = await fetch('https://connect.stripe.com/oauth/token', {
@@ -82,7 +85,6 @@ serve(async (req) => {
       .from('lands')
       .update({ stripe_account_id: stripe_user_id, stripe_account_name })
       .eq('id', landId)
-      .eq('user_id', userId)
 
     if (error) {
       console.error('Supabase update error:', error.message)
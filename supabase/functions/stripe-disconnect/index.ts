@@ -24,13 +24,17 @@ serve(async (req) => {
       return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: corsHeaders })
     }
 
+    const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: landId, p_action: 'manage_stripe' })
+    if (!allowed) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), { status: 403, headers: corsHeaders })
+    }
+
     const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
 
     const { data: land } = await supabase
       .from('lands')
       .select('stripe_account_id')
       .eq('id', landId)
-      .eq('user_id', caller.id)
       .single()
 
     if (land?.stripe_account_id) {
@@ -48,7 +52,6 @@ serve(async (req) => {
       .from('lands')
       .update({ stripe_account_id: null, stripe_account_name: null })
       .eq('id', landId)
-      .eq('user_id', caller.id)
 
     if (error) {
       return new Response(JSON.stringify({ error: error.message }), { status: 500, headers: corsHeaders })
@@ -92,5 +92,36 @@ serve(async (req) => {
     }
   }
 
+  // ── Card added after an ownership transfer (transfer-ownership invoices until then) ──
+  if (event.type === 'payment_method.attached') {
+    const paymentMethod = event.data.object
+    const stripeKey = Deno.env.get('STRIPE_SECRET_KEY')
+
+    if (paymentMethod.customer && stripeKey) {
+      const headers = {
+        Authorization: `Bearer ${stripeKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      }
+      const listRes = await fetch(`https://api.stripe.com/v1/subscriptions?customer=${paymentMethod.customer}&status=all`, { headers })
+      const subscriptions = await listRes.json()
+      if (!listRes.ok) return new Response('Failed to list subscriptions', { status: 500 })
+
+      for (const subscription of subscriptions.data ?? []) {
+        if (subscription.metadata?.awaiting_payment_method !== 'true' || subscription.status === 'canceled') continue
+        const res = await fetch(`https://api.stripe.com/v1/subscriptions/${subscription.id}`, {
+          method: 'POST',
+          headers,
+          body: new URLSearchParams({
+            collection_method: 'charge_automatically',
+            default_payment_method: paymentMethod.id,
+            'metadata[awaiting_payment_method]': '',
+          }),
+        })
+        // Stripe retries the event
+        if (!res.ok) return new Response('Failed to update subscription', { status: 500 })
+      }
+    }
+  }
+
   return new Response(JSON.stringify({ received: true }), { status: 200 })
 })
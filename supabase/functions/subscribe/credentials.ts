@@ -0,0 +1,48 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import type { CampaignConfig, CampaignIntegration } from '../publish/types.ts'
+
+// Campaign provider credentials live in Vault (`get_campaign_credentials()` /
+// `update_campaign_credentials()`, service role only), never in `lands.campaign_integration`,
+// which the dashboard downloads. Functions that call a provider fill them back in here.
+
+export interface CampaignCredentials {
+  api_key?: string
+  headers?: Record<string, string> // custom provider
+  signing_secret?: string          // webhook and custom providers
+}
+
+/** An integration with its credentials, for calling the provider. Never send one to a browser. */
+export interface ResolvedIntegration extends CampaignIntegration {
+  config: CampaignConfig & CampaignCredentials
+}
+
+export async function getCampaignCredentials(supabase: SupabaseClient, landId: string): Promise<CampaignCredentials> {
+  const { data, error } = await supabase.rpc('get_campaign_credentials', { p_land_id: landId })
+  if (error) throw new Error(error.message)
+  return (data ?? {}) as CampaignCredentials
+}
+
+/** Merges `changes` into the land's credentials (null removes a field); null removes them all. */
+export async function updateCampaignCredentials(
+  supabase: SupabaseClient,
+  landId: string,
+  changes: { [K in keyof CampaignCredentials]?: CampaignCredentials[K] | null } | null,
+): Promise<void> {
+  const { error } = await supabase.rpc('update_campaign_credentials', { p_land_id: landId, p_changes: changes })
+  if (error) throw new Error(error.message)
+}
+
+export async function resolveIntegration(
+  supabase: SupabaseClient,
+  landId: string,
+  integration: CampaignIntegration | null,
+): Promise<ResolvedIntegration | null> {
+  if (!integration) return null
+  const credentials = await getCampaignCredentials(supabase, landId)
+  return { ...integration, config: { ...integration.config, ...credentials } }
+}
+
+/** "••••1234" — what the dashboard shows of a stored key. */
+export function maskKey(key: string): string {
+  return key.length >= 8 ? `••••${key.slice(-4)}` : '••••'
+}
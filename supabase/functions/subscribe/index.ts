@@ -1,242 +1,106 @@
 import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { nextRetryAt, syncSubscriber } from './sync.ts'
+import { resolveIntegration } from './credentials.ts'
+import { errorResponse, ipKey, isBotSubmission, isDisposableEmail, isPlausibleEmail, isRateLimited, isSpamName } from '../publish/guard.ts'
 import type { CampaignIntegration } from '../publish/types.ts'
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 
+// Called from published pages, which live on *.lands.app and on custom domains
 const corsHeaders = {
-  'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
+  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'content-type',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+// The signup is stored in `subscribers` first, then forwarded to the land's provider. The
+// visitor is told it worked once it's stored — a provider failure is retried later by
+// `sync-subscribers`, not shown on the page.
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
   }
 
   try {
-    const { handle, email, name } = await req.json() as { handle: string; email: string; name?: string }
+    const body = await req.json() as Record<string, unknown>
+    const { handle, email, name, sectionId } = body as {
+      handle?: string
+      email?: string
+      name?: string
+      sectionId?: string
+    }
+
+    const address = String(email ?? '').trim().toLowerCase()
+    const fullName = String(name ?? '').trim()
+    if (!handle) return errorResponse('invalid_request', corsHeaders)
+    if (!isPlausibleEmail(address)) return errorResponse('invalid_email', corsHeaders)
+    if (isDisposableEmail(address)) return errorResponse('invalid_email', corsHeaders, { message: 'Please use a permanent email address.' })
 
-    if (!handle || !email) {
-      return json({ error: 'Missing handle or email' }, 400)
+    // Bots are told it worked, so they don't learn what gave them away
+    if (await isBotSubmission(body) || isSpamName(fullName)) {
+      console.warn('Subscribe: dropped bot signup for', handle)
+      return json({ ok: true })
     }
 
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
 
-    const { data: land, error } = await supabase
+    const { data: land } = await supabase
       .from('lands')
-      .select('campaign_integration')
+      .select('id, campaign_integration')
       .eq('handle', handle)
-      .single()
+      .maybeSingle()
+
+    if (!land) return errorResponse('not_found', corsHeaders, { message: 'Land not found' })
 
-    if (error || !land?.campaign_integration) {
-      return json({ error: 'No campaign integration configured' }, 400)
+    // A visitor gets a handful of tries; the land's cap stops a flood from many addresses
+    if (await isRateLimited(supabase, [
+      { key: await ipKey('subscribe', req), limit: 10, window: '10 minutes' },
+      { key: `subscribe:land:${land.id}`, limit: 300, window: '1 hour' },
+    ])) {
+      return errorResponse('rate_limited', corsHeaders)
     }
 
-    const integration = land.campaign_integration as CampaignIntegration
-
-    switch (integration.provider) {
-      case 'kit':       return await subscribeKit(integration, email, name)
-      case 'loops':     return await subscribeLoops(integration, email, name)
-      case 'brevo':     return await subscribeBrevo(integration, email, name)
-      case 'flodesk':   return await subscribeFlodesk(integration, email, name)
-      case 'resend':    return await subscribeResend(integration, email, name)
-      case 'mailchimp': return await subscribeMailchimp(integration, email, name)
-      case 'webhook':
-      case 'custom':    return await subscribeWebhook(integration, email, name)
-      default:          return json({ error: 'Unsupported provider' }, 400)
+    // next_sync_at is set up front so the retry job picks the row up even if this
+    // request dies before the first attempt is recorded
+    const { error: insertError } = await supabase.from('subscribers').upsert({
+      land_id: land.id,
+      email: address,
+      name: fullName || null,
+      section_id: typeof sectionId === 'string' ? sectionId.slice(0, 64) : null,
+      next_sync_at: nextRetryAt(1),
+    }, { onConflict: 'land_id,email', ignoreDuplicates: true })
+    if (insertError) throw new Error(insertError.message)
+
+    const { data: subscriber, error: selectError } = await supabase
+      .from('subscribers')
+      .select('id, land_id, email, name, sync_status')
+      .eq('land_id', land.id)
+      .eq('email', address)
+      .single()
+    if (selectError) throw new Error(selectError.message)
+
+    // Signing up again: nothing to do once the provider has them; otherwise try afresh
+    if (subscriber.sync_status !== 'synced') {
+      await syncSubscriber(
+        supabase,
+        { ...subscriber, sync_attempts: 0 },
+        await resolveIntegration(supabase, land.id, land.campaign_integration as CampaignIntegration | null),
+      )
     }
+
+    return json({ ok: true })
   } catch (err) {
     console.error('Subscribe error:', err)
-    return json({ error: 'Internal error' }, 500)
+    return errorResponse('internal', corsHeaders)
   }
 })
 
-// ─── Provider implementations ─────────────────────────────────────────────────
-
-async function subscribeKit(
-  { config }: CampaignIntegration,
-  email: string,
-  name?: string,
-): Promise<Response> {
-  const res = await fetch(`https://api.convertkit.com/v3/forms/${config.list_id}/subscribe`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      api_secret: config.api_key,
-      email,
-      ...(name ? { first_name: name } : {}),
-    }),
-  })
-  if (!res.ok) {
-    console.error('Kit error:', await res.text())
-    return json({ error: 'Failed to subscribe via Kit' }, 502)
-  }
-  return json({ ok: true })
-}
-
-async function subscribeLoops(
-  { config }: CampaignIntegration,
-  email: string,
-  name?: string,
-): Promise<Response> {
-  const body: Record<string, unknown> = {
-    email,
-    ...(name ? { firstName: name } : {}),
-    ...(config.list_id ? { mailingLists: { [config.list_id]: true } } : {}),
-  }
-  const res = await fetch('https://app.loops.so/api/v1/contacts/create', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${config.api_key}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  })
-  if (!res.ok) {
-    console.error('Loops error:', await res.text())
-    return json({ error: 'Failed to subscribe via Loops' }, 502)
-  }
-  return json({ ok: true })
-}
-
-async function subscribeResend(
-  { config }: CampaignIntegration,
-  email: string,
-  name?: string,
-): Promise<Response> {
-  const firstName = name?.split(' ')[0]
-  const lastName = name?.split(' ').slice(1).join(' ') || undefined
-  const res = await fetch(`https://api.resend.com/audiences/${config.list_id}/contacts`, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${config.api_key}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ email, first_name: firstName, last_name: lastName, unsubscribed: false }),
-  })
-  if (!res.ok) {
-    console.error('Resend error:', await res.text())
-    return json({ error: 'Failed to subscribe via Resend' }, 502)
-  }
-  return json({ ok: true })
-}
-
-async function subscribeMailchimp(
-  { config }: CampaignIntegration,
-  email: string,
-  name?: string,
-): Promise<Response> {
-  const dc = config.api_key!.split('-').pop()
-  const credentials = btoa(`anystring:${config.api_key}`)
-  const res = await fetch(`https://${dc}.api.mailchimp.com/3.0/lists/${config.list_id}/members`, {
-    method: 'POST',
-    headers: {
-      Authorization: `Basic ${credentials}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      email_address: email,
-      status: 'subscribed',
-      ...(name ? { merge_fields: { FNAME: name.split(' ')[0], LNAME: name.split(' ').slice(1).join(' ') } } : {}),
-    }),
-  })
-  // 400 with title "Member Exists" is acceptable
-  if (!res.ok && res.status !== 400) {
-    console.error('Mailchimp error:', await res.text())
-    return json({ error: 'Failed to subscribe via Mailchimp' }, 502)
-  }
-  return json({ ok: true })
-}
-
-async function subscribeBrevo(
-  { config }: CampaignIntegration,
-  email: string,
-  name?: string,
-): Promise<Response> {
-  const body: Record<string, unknown> = {
-    email,
-    updateEnabled: true,
-    ...(name ? { attributes: { FIRSTNAME: name } } : {}),
-    ...(config.list_id ? { listIds: [parseInt(config.list_id)] } : {}),
-  }
-
-  const res = await fetch('https://api.brevo.com/v3/contacts', {
-    method: 'POST',
-    headers: {
-      'api-key': config.api_key!,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  })
-
-  if (!res.ok && res.status !== 204) {
-    const detail = await res.text()
-    console.error('Brevo error:', detail)
-    return json({ error: 'Failed to subscribe via Brevo' }, 502)
-  }
-
-  return json({ ok: true })
-}
-
-async function subscribeFlodesk(
-  { config }: CampaignIntegration,
-  email: string,
-  name?: string,
-): Promise<Response> {
-  const credentials = btoa(`${config.api_key}:${config.api_key}`)
-  const body: Record<string, unknown> = {
-    email,
-    ...(name ? { first_name: name } : {}),
-    ...(config.list_id ? { segments: [{ id: config.list_id }] } : {}),
-  }
-
-  const res = await fetch('https://api.flodesk.com/v1/subscribers', {
-    method: 'POST',
-    headers: {
-      Authorization: `Basic ${credentials}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  })
-
-  if (!res.ok) {
-    const detail = await res.text()
-    console.error('Flodesk error:', detail)
-    return json({ error: 'Failed to subscribe via Flodesk' }, 502)
-  }
-
-  return json({ ok: true })
-}
-
-async function subscribeWebhook(
-  { config }: CampaignIntegration,
-  email: string,
-  name?: string,
-): Promise<Response> {
-  const res = await fetch(config.webhook_url!, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      ...config.headers,
-    },
-    body: JSON.stringify({ email, name }),
-  })
-
-  if (!res.ok) {
-    console.error('Webhook error:', res.status)
-    return json({ error: 'Webhook returned non-2xx status' }, 502)
-  }
-
-  return json({ ok: true })
-}
-
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
-function json(body: unknown, status = 200): Response {
+function json(body: unknown): Response {
   return new Response(JSON.stringify(body), {
-    status,
     headers: { ...corsHeaders, 'Content-Type': 'application/json' },
   })
 }
@@ -0,0 +1,226 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { deliverWebhook } from './webhook.ts'
+import type { ResolvedIntegration } from './credentials.ts'
+
+// Forwarding subscribers to the land's email provider. Shared by `subscribe` (first try,
+// right after the signup is recorded) and `sync-subscribers` (retries on a schedule).
+
+const MAX_SYNC_ATTEMPTS = 8
+const RETRY_BASE_MINUTES = 5
+
+/** Retry n waits 5 · 2ⁿ⁻¹ minutes — 5, 10, 20 … about ten and a half hours in all. */
+export function nextRetryAt(attempts: number): string {
+  return new Date(Date.now() + RETRY_BASE_MINUTES * 2 ** Math.max(attempts - 1, 0) * 60 * 1000).toISOString()
+}
+
+export interface PendingSubscriber {
+  id: string
+  land_id: string
+  email: string
+  name: string | null
+  sync_attempts: number
+}
+
+/**
+ * Sends one subscriber to the provider and records the outcome on the row: synced, another
+ * try scheduled with backoff, or failed once MAX_SYNC_ATTEMPTS is used up. Lands without a
+ * provider mark the row skipped. Returns whether the provider has the subscriber.
+ */
+export async function syncSubscriber(
+  supabase: SupabaseClient,
+  subscriber: PendingSubscriber,
+  integration: ResolvedIntegration | null,
+): Promise<boolean> {
+  if (!integration) {
+    await supabase.from('subscribers').update({ sync_status: 'skipped', next_sync_at: null }).eq('id', subscriber.id)
+    return false
+  }
+
+  const attempts = subscriber.sync_attempts + 1
+  try {
+    await forward(supabase, subscriber, integration)
+    await supabase.from('subscribers').update({
+      provider: integration.provider,
+      sync_status: 'synced',
+      sync_attempts: attempts,
+      sync_error: null,
+      next_sync_at: null,
+      synced_at: new Date().toISOString(),
+    }).eq('id', subscriber.id)
+    return true
+  } catch (err) {
+    const giveUp = attempts >= MAX_SYNC_ATTEMPTS
+    console.error('Subscriber sync error:', subscriber.id, err)
+    await supabase.from('subscribers').update({
+      provider: integration.provider,
+      sync_status: giveUp ? 'failed' : 'pending',
+      sync_attempts: attempts,
+      sync_error: (err as Error).message.slice(0, 500),
+      next_sync_at: giveUp ? null : nextRetryAt(attempts),
+    }).eq('id', subscriber.id)
+    return false
+  }
+}
+
+/**
+ * Queues the land's `skipped` subscribers — signups from while no provider was connected —
+ * for `sync-subscribers` to send to the one just connected.
+ */
+export async function requeueSkipped(supabase: SupabaseClient, landId: string): Promise<void> {
+  const { error } = await supabase
+    .from('subscribers')
+    .update({ sync_status: 'pending', sync_attempts: 0, sync_error: null, next_sync_at: new Date().toISOString() })
+    .eq('land_id', landId)
+    .eq('sync_status', 'skipped')
+  if (error) throw new Error(error.message)
+}
+
+function forward(supabase: SupabaseClient, subscriber: PendingSubscriber, integration: ResolvedIntegration): Promise<void> {
+  const { email } = subscriber
+  const name = subscriber.name ?? undefined
+  switch (integration.provider) {
+    case 'kit':       return subscribeKit(integration, email, name)
+    case 'loops':     return subscribeLoops(integration, email, name)
+    case 'brevo':     return subscribeBrevo(integration, email, name)
+    case 'flodesk':   return subscribeFlodesk(integration, email, name)
+    case 'resend':    return subscribeResend(integration, email, name)
+    case 'mailchimp': return subscribeMailchimp(integration, email, name)
+    case 'webhook':
+    case 'custom':    return deliverWebhook(supabase, subscriber.id, {
+      event: 'subscriber.created',
+      email,
+      name: subscriber.name,
+      land_id: subscriber.land_id,
+    }, integration)
+    default:          return Promise.reject(new Error(`Unsupported provider ${integration.provider}`))
+  }
+}
+
+// ─── Provider implementations ─────────────────────────────────────────────────
+
+async function subscribeKit(
+  { config }: ResolvedIntegration,
+  email: string,
+  name?: string,
+): Promise<void> {
+  const res = await fetch(`https://api.convertkit.com/v3/forms/${config.list_id}/subscribe`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      api_secret: config.api_key,
+      email,
+      ...(name ? { first_name: name } : {}),
+    }),
+  })
+  if (!res.ok) throw new Error(`Kit ${res.status}: ${await res.text()}`)
+}
+
+async function subscribeLoops(
+  { config }: ResolvedIntegration,
+  email: string,
+  name?: string,
+): Promise<void> {
+  const body: Record<string, unknown> = {
+    email,
+    ...(name ? { firstName: name } : {}),
+    ...(config.list_id ? { mailingLists: { [config.list_id]: true } } : {}),
+  }
+  const res = await fetch('https://app.loops.so/api/v1/contacts/create', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${config.api_key}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+  if (!res.ok) throw new Error(`Loops ${res.status}: ${await res.text()}`)
+}
+
+async function subscribeResend(
+  { config }: ResolvedIntegration,
+  email: string,
+  name?: string,
+): Promise<void> {
+  const firstName = name?.split(' ')[0]
+  const lastName = name?.split(' ').slice(1).join(' ') || undefined
+  const res = await fetch(`https://api.resend.com/audiences/${config.list_id}/contacts`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${config.api_key}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ email, first_name: firstName, last_name: lastName, unsubscribed: false }),
+  })
+  if (!res.ok) throw new Error(`Resend ${res.status}: ${await res.text()}`)
+}
+
+async function subscribeMailchimp(
+  { config }: ResolvedIntegration,
+  email: string,
+  name?: string,
+): Promise<void> {
+  const dc = config.api_key!.split('-').pop()
+  const credentials = btoa(`anystring:${config.api_key}`)
+  const res = await fetch(`https://${dc}.api.mailchimp.com/3.0/lists/${config.list_id}/members`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${credentials}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      email_address: email,
+      status: 'subscribed',
+      ...(name ? { merge_fields: { FNAME: name.split(' ')[0], LNAME: name.split(' ').slice(1).join(' ') } } : {}),
+    }),
+  })
+  // 400 with title "Member Exists" is acceptable
+  if (!res.ok && res.status !== 400) throw new Error(`Mailchimp ${res.status}: ${await res.text()}`)
+}
+
+async function subscribeBrevo(
+  { config }: ResolvedIntegration,
+  email: string,
+  name?: string,
+): Promise<void> {
+  const body: Record<string, unknown> = {
+    email,
+    updateEnabled: true,
+    ...(name ? { attributes: { FIRSTNAME: name } } : {}),
+    ...(config.list_id ? { listIds: [parseInt(config.list_id)] } : {}),
+  }
+
+  const res = await fetch('https://api.brevo.com/v3/contacts', {
+    method: 'POST',
+    headers: {
+      'api-key': config.api_key!,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!res.ok && res.status !== 204) throw new Error(`Brevo ${res.status}: ${await res.text()}`)
+}
+
+async function subscribeFlodesk(
+  { config }: ResolvedIntegration,
+  email: string,
+  name?: string,
+): Promise<void> {
+  const credentials = btoa(`${config.api_key}:${config.api_key}`)
+  const body: Record<string, unknown> = {
+    email,
+    ...(name ? { first_name: name } : {}),
+    ...(config.list_id ? { segments: [{ id: config.list_id }] } : {}),
+  }
+
+  const res = await fetch('https://api.flodesk.com/v1/subscribers', {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${credentials}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!res.ok) throw new Error(`Flodesk ${res.status}: ${await res.text()}`)
+}
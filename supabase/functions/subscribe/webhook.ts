@@ -0,0 +1,98 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import type { ResolvedIntegration } from './credentials.ts'
+
+// Signed deliveries to a land's own endpoint (the `webhook` and `custom` providers). Shared by
+// `sync.ts` and `campaign-webhook` (owner replays). Each request carries
+//   Lands-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+// — the scheme Stripe uses — keyed with the land's signing secret (credentials.ts), plus
+// Lands-Delivery: <subscriber id>, the same on every retry so receivers can drop duplicates.
+// Failed deliveries are kept in `webhook_deliveries` for the owner to inspect and replay.
+
+export interface WebhookPayload {
+  event: 'subscriber.created'
+  email: string
+  name: string | null
+  land_id: string
+}
+
+/** A new signing secret: `whsec_` and 32 random bytes, base64url. */
+export function generateSigningSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return 'whsec_' + btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+async function signatureHeader(secret: string, body: string): Promise<string> {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`))
+  const hex = Array.from(new Uint8Array(sig)).map((b) => b.toString(16).padStart(2, '0')).join('')
+  return `t=${timestamp},v1=${hex}`
+}
+
+/**
+ * POSTs `payload` to the integration's endpoint, signed when the land has a secret (lands
+ * that connected before signing existed send unsigned until they generate one). A failure
+ * is recorded against the subscriber's delivery and thrown; a success clears it.
+ */
+export async function deliverWebhook(
+  supabase: SupabaseClient,
+  subscriberId: string,
+  payload: WebhookPayload,
+  { config }: ResolvedIntegration,
+): Promise<void> {
+  const body = JSON.stringify(payload)
+
+  let error: string | null = null
+  let responseStatus: number | null = null
+  try {
+    const res = await fetch(config.webhook_url!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...config.headers,
+        'Lands-Delivery': subscriberId,
+        ...(config.signing_secret ? { 'Lands-Signature': await signatureHeader(config.signing_secret, body) } : {}),
+      },
+      body,
+      signal: AbortSignal.timeout(10_000),
+    })
+    responseStatus = res.status
+    if (!res.ok) error = `Endpoint returned ${res.status}`
+  } catch (err) {
+    error = (err as Error).name === 'TimeoutError' ? 'Endpoint timed out' : 'Endpoint unreachable'
+  }
+
+  const now = new Date().toISOString()
+  if (!error) {
+    await supabase.from('webhook_deliveries')
+      .update({ status: 'delivered', response_status: responseStatus, error: null, delivered_at: now })
+      .eq('subscriber_id', subscriberId)
+    return
+  }
+
+  const { data: previous } = await supabase
+    .from('webhook_deliveries')
+    .select('attempts')
+    .eq('subscriber_id', subscriberId)
+    .maybeSingle()
+
+  await supabase.from('webhook_deliveries').upsert({
+    land_id: payload.land_id,
+    subscriber_id: subscriberId,
+    url: config.webhook_url,
+    payload,
+    status: 'failed',
+    attempts: (previous?.attempts ?? 0) + 1,
+    response_status: responseStatus,
+    error,
+    last_attempt_at: now,
+  }, { onConflict: 'subscriber_id' })
+
+  throw new Error(error)
+}
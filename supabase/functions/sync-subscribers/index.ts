@@ -0,0 +1,56 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { syncSubscriber, type PendingSubscriber } from '../subscribe/sync.ts'
+import { resolveIntegration, type ResolvedIntegration } from '../subscribe/credentials.ts'
+import type { CampaignIntegration } from '../publish/types.ts'
+
+// Retry queue for campaign signups the provider didn't accept on the first try. Called
+// every five minutes by the `sync-subscribers` pg_cron job with `Authorization: Bearer
+// <CRON_SECRET>`; each run claims the rows that are due, oldest first (`claim_due_subscribers()`),
+// so overlapping runs never send the same signup twice.
+
+const BATCH_SIZE = 100
+
+Deno.serve(async (req) => {
+  const cronSecret = Deno.env.get('CRON_SECRET')
+  if (!cronSecret) return json({ error: 'CRON_SECRET not configured' }, 500)
+  if (req.headers.get('Authorization') !== `Bearer ${cronSecret}`) return json({ error: 'Unauthorized' }, 401)
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    )
+
+    const { data: claimed, error } = await supabase.rpc('claim_due_subscribers', { p_limit: BATCH_SIZE })
+    if (error) throw new Error(error.message)
+    const due = (claimed ?? []) as PendingSubscriber[]
+
+    // Credentials are read once per land in the batch
+    const integrations = new Map<string, ResolvedIntegration | null>()
+    let synced = 0
+    for (const row of due) {
+      if (!integrations.has(row.land_id)) {
+        const { data: land } = await supabase
+          .from('lands')
+          .select('campaign_integration')
+          .eq('id', row.land_id)
+          .maybeSingle()
+        const integration = (land?.campaign_integration ?? null) as CampaignIntegration | null
+        integrations.set(row.land_id, await resolveIntegration(supabase, row.land_id, integration))
+      }
+      if (await syncSubscriber(supabase, row, integrations.get(row.land_id) ?? null)) synced++
+    }
+
+    return json({ processed: due.length, synced })
+  } catch (err) {
+    console.error('Subscriber sync run error:', err)
+    return json({ error: 'Internal error' }, 500)
+  }
+})
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,300 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Hands a land to another account (JWT). The owner offers it (`land_can(…, 'manage_land')`),
+// the recipient accepts or declines it; there's one open offer per land, in `land_transfers`.
+//   POST { action: 'offer', landId, email, keepPreviousOwner, keepStripeAccount } → { transfer }
+//   POST { action: 'cancel', landId }                                             → { success }
+//   POST { action: 'accept', transferId }                                         → { landId }
+//   POST { action: 'decline', transferId }                                        → { success }
+// On accept, the offer is first claimed (`pending` → `accepting`) so only one request goes on,
+// and the owner can't withdraw it halfway. Then Stripe: the land's customer (and with it the
+// subscription) is handed to the new owner without the previous owner's cards, and the
+// connected account is deauthorized unless it was handed over. Finally
+// `accept_land_transfer()` moves the owner and collaborators in one go. If Stripe or that
+// call fails, the customer goes back to the previous owner's name and the offer back to
+// `pending`, so the accept can be retried. The custom domain, like the published page,
+// belongs to the land and needs nothing.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// How long the new owner has to pay an emailed invoice before they've added a card
+const INVOICE_DAYS_UNTIL_DUE = 14
+
+// A claim older than this belongs to an accept that died without finishing or letting go
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+
+    // ─── Auth: user-context client validates the JWT ───
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    })
+
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller?.email) return json({ error: 'Unauthorized' }, 401)
+
+    // ─── Admin client: land_transfers is written by the service role only ───
+    const supabaseAdmin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+    const body = await req.json() as {
+      action: 'offer' | 'cancel' | 'accept' | 'decline'
+      landId?: string
+      transferId?: string
+      email?: string
+      keepPreviousOwner?: boolean
+      keepStripeAccount?: boolean
+    }
+
+    // ─── Owner: offer the land, or take the offer back ───
+    if (body.action === 'offer' || body.action === 'cancel') {
+      if (!body.landId) return json({ error: 'landId is required' }, 400)
+
+      const { data: land } = await supabaseAdmin
+        .from('lands')
+        .select('id, title')
+        .eq('id', body.landId)
+        .maybeSingle()
+
+      if (!land) return json({ error: 'Land not found' }, 404)
+
+      const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: land.id, p_action: 'manage_land' })
+      if (!allowed) return json({ error: 'Forbidden' }, 403)
+
+      const { data: accepting, error: acceptingError } = await supabaseAdmin
+        .from('land_transfers')
+        .select('id')
+        .eq('land_id', land.id)
+        .eq('status', 'accepting')
+        .maybeSingle()
+      if (acceptingError) throw new Error(acceptingError.message)
+      if (accepting) return json({ error: 'The recipient is accepting this transfer right now' }, 409)
+
+      // A new offer replaces the open one
+      const { error: cancelError } = await supabaseAdmin
+        .from('land_transfers')
+        .update({ status: 'cancelled', responded_at: new Date().toISOString() })
+        .eq('land_id', land.id)
+        .eq('status', 'pending')
+      if (cancelError) throw new Error(cancelError.message)
+
+      if (body.action === 'cancel') return json({ success: true })
+
+      const email = body.email?.trim().toLowerCase() ?? ''
+      if (!EMAIL_RE.test(email)) return json({ error: 'Enter a valid email address' }, 400)
+      if (email === caller.email.toLowerCase()) return json({ error: 'You already own this project' }, 400)
+
+      const { data: transfer, error: insertError } = await supabaseAdmin
+        .from('land_transfers')
+        .insert({
+          land_id: land.id,
+          land_title: land.title ?? '',
+          from_user_id: caller.id,
+          from_email: caller.email,
+          to_email: email,
+          keep_previous_owner: body.keepPreviousOwner !== false,
+          keep_stripe_account: body.keepStripeAccount === true,
+        })
+        .select()
+        .single()
+
+      if (insertError) throw new Error(insertError.message)
+
+      // ─── Invite email via Supabase Auth (best-effort) ───
+      // Fails for already-registered users — they see the offer on their next dashboard visit.
+      const appUrl = Deno.env.get('APP_URL') ?? 'https://lands.app'
+      await supabaseAdmin.auth.admin.inviteUserByEmail(email, {
+        redirectTo: `${appUrl}/auth/accept-invite?land=${land.id}&transfer=${transfer.id}`,
+        data: { transferred_land: land.id },
+      })
+
+      return json({ transfer })
+    }
+
+    // ─── Recipient: accept or decline ───
+    if (body.action !== 'accept' && body.action !== 'decline') {
+      return json({ error: 'Unknown action' }, 400)
+    }
+    if (!body.transferId) return json({ error: 'transferId is required' }, 400)
+
+    if (body.action === 'decline') {
+      const { data: declined, error } = await supabaseAdmin
+        .from('land_transfers')
+        .update({ status: 'declined', responded_at: new Date().toISOString() })
+        .eq('id', body.transferId)
+        .eq('to_email', caller.email.toLowerCase())
+        .eq('status', 'pending')
+        .select('id')
+      if (error) throw new Error(error.message)
+      if (!declined?.length) return json({ error: 'Transfer not found' }, 404)
+      return json({ success: true })
+    }
+
+    // ─── Claim the offer, so no other accept or the owner can act on it meanwhile ───
+    const now = new Date()
+    const staleClaim = new Date(now.getTime() - CLAIM_TIMEOUT_MS).toISOString()
+    const { data: transfer, error: claimError } = await supabaseAdmin
+      .from('land_transfers')
+      .update({ status: 'accepting', responded_at: now.toISOString() })
+      .eq('id', body.transferId)
+      .eq('to_email', caller.email.toLowerCase())
+      .or(`status.eq.pending,and(status.eq.accepting,responded_at.lt.${staleClaim})`)
+      .select('land_id, from_user_id, from_email, keep_stripe_account')
+      .maybeSingle()
+    if (claimError) throw new Error(claimError.message)
+    if (!transfer) return json({ error: 'This transfer is no longer available' }, 404)
+
+    // Lets go of the claim so the recipient can try again (or the owner withdraw the offer)
+    const release = async () => {
+      const { error } = await supabaseAdmin
+        .from('land_transfers')
+        .update({ status: 'pending', responded_at: null })
+        .eq('id', body.transferId)
+        .eq('status', 'accepting')
+      if (error) console.error('Transfer: releasing the claim failed:', error.message)
+    }
+
+    const { data: land } = await supabaseAdmin
+      .from('lands')
+      .select('stripe_customer_id, stripe_subscription_id, stripe_account_id')
+      .eq('id', transfer.land_id)
+      .eq('user_id', transfer.from_user_id)
+      .maybeSingle()
+
+    if (!land) {
+      await supabaseAdmin
+        .from('land_transfers')
+        .update({ status: 'cancelled', responded_at: new Date().toISOString() })
+        .eq('id', body.transferId)
+      return json({ error: 'This transfer is no longer available' }, 404)
+    }
+
+    // Puts the customer back in the previous owner's name after a failed accept. Their cards
+    // stay detached, so the subscription is invoiced until a card is added again, and a
+    // deauthorized Connect account stays released — a retried accept finishes the job.
+    const restoreBilling = async () => {
+      if (!land.stripe_customer_id) return
+      await stripe(`customers/${land.stripe_customer_id}`, {
+        email: transfer.from_email,
+        'metadata[user_id]': transfer.from_user_id,
+      }).catch((err) => console.error('Transfer: restoring the Stripe customer failed:', err))
+    }
+
+    // ─── Stripe first: the land only changes hands once billing and payouts have ───
+    // Each step is safe to repeat, so an accept that failed here can simply be retried.
+    try {
+      if (land.stripe_customer_id) {
+        await handOverBilling(land.stripe_customer_id, land.stripe_subscription_id, caller.id, caller.email)
+      }
+      if (land.stripe_account_id && !transfer.keep_stripe_account) {
+        await releaseConnectAccount(land.stripe_account_id)
+      }
+    } catch (err) {
+      console.error('Transfer: Stripe handover failed:', err)
+      await restoreBilling()
+      await release()
+      return json({ error: 'The project’s Stripe billing couldn’t be handed over. Try again in a moment.' }, 502)
+    }
+
+    // ─── Finalize: the owner, collaborators and Connect account change in one transaction ───
+    const { data: landId, error: acceptError } = await supabaseAdmin.rpc('accept_land_transfer', {
+      p_transfer_id: body.transferId,
+      p_user_id: caller.id,
+      p_email: caller.email,
+    })
+    if (acceptError) {
+      console.error('Transfer: accept_land_transfer failed:', acceptError.message)
+      await restoreBilling()
+      await release()
+      return json({ error: 'The project couldn’t be transferred. Try again in a moment.' }, 500)
+    }
+    if (!landId) {
+      await restoreBilling()
+      return json({ error: 'This transfer is no longer available' }, 404)
+    }
+
+    return json({ landId })
+  } catch (err) {
+    console.error('Transfer ownership error:', err)
+    return json({ error: 'Internal error' }, 500)
+  }
+})
+
+async function stripe(path: string, params: Record<string, string> = {}, method = 'POST'): Promise<Record<string, unknown>> {
+  const res = await fetch(`https://api.stripe.com/v1/${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${Deno.env.get('STRIPE_SECRET_KEY')}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: method === 'POST' ? new URLSearchParams(params) : undefined,
+  })
+  const data = await res.json()
+  if (!res.ok) throw new Error(`Stripe ${path}: ${data.error?.message ?? res.status}`)
+  return data
+}
+
+/**
+ * Moves the land's Stripe customer to the new owner. The previous owner's saved payment
+ * methods are detached, and the subscription is invoiced by email (`send_invoice`) until the
+ * new owner adds a card — `stripe-subscription-webhook` then switches it back to charging it.
+ */
+async function handOverBilling(customerId: string, subscriptionId: string | null, userId: string, email: string) {
+  await stripe(`customers/${customerId}`, {
+    email,
+    'metadata[user_id]': userId,
+    'invoice_settings[default_payment_method]': '',
+  })
+
+  const methods = await stripe(`customers/${customerId}/payment_methods?limit=100`, {}, 'GET') as { data: { id: string }[] }
+  for (const method of methods.data) {
+    await stripe(`payment_methods/${method.id}/detach`)
+  }
+
+  if (subscriptionId) {
+    await stripe(`subscriptions/${subscriptionId}`, {
+      collection_method: 'send_invoice',
+      days_until_due: String(INVOICE_DAYS_UNTIL_DUE),
+      default_payment_method: '',
+      'metadata[awaiting_payment_method]': 'true',
+    })
+  }
+}
+
+/** Disconnects the previous owner's Connect account from the platform. */
+async function releaseConnectAccount(accountId: string) {
+  const res = await fetch('https://connect.stripe.com/oauth/deauthorize', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${Deno.env.get('STRIPE_SECRET_KEY')}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      client_id: Deno.env.get('STRIPE_CLIENT_ID')!,
+      stripe_user_id: accountId,
+    }),
+  })
+  if (res.ok) return
+  const data = await res.json().catch(() => ({}))
+  // Released by an earlier attempt at this accept
+  if (data.error === 'invalid_client' && /not connected/i.test(data.error_description ?? '')) return
+  throw new Error(`Stripe deauthorize: ${data.error_description ?? res.status}`)
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,120 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { isKVConfigured, deleteDomainMapping } from '../publish/kv.ts'
+import { removePage, removeStalePage } from '../publish/pages.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
+  'Access-Control-Allow-Headers': 'authorization, apikey, content-type, x-client-info',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    if (!isKVConfigured()) {
+      return new Response(JSON.stringify({ error: 'Cloudflare env vars not configured' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    // ─── Auth: user-context client validates the JWT ───
+    const authHeader = req.headers.get('Authorization') ?? ''
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    })
+
+    const { data: { user: caller }, error: authError } = await supabaseUser.auth.getUser()
+    if (authError || !caller) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    // ─── Admin client for privileged operations ───
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // staleOnly: called after a save that may have renamed the land — only act if the
+    // page is still served under an old handle
+    const { landId, staleOnly = false } = await req.json() as { landId: string; staleOnly?: boolean }
+
+    if (!landId) {
+      return new Response(JSON.stringify({ error: 'landId is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const { data: land, error: landError } = await supabase
+      .from('lands')
+      .select('id, user_id, handle, published_handle, custom_domain')
+      .eq('id', landId)
+      .single()
+
+    if (landError || !land) {
+      return new Response(JSON.stringify({ error: 'Land not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    // ─── Verify the caller's role lets them publish (owner or admin) ───
+    const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: land.id, p_action: 'publish' })
+    if (!allowed) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const isStale = !!land.published_handle && land.published_handle !== land.handle
+    if (staleOnly && !isStale) {
+      return new Response(JSON.stringify({ unpublished: false }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    try {
+      if (isStale) {
+        await removeStalePage(supabase, land.id, land.published_handle)
+      }
+      // The current handle is ours — anything under it belongs to this land
+      if (!staleOnly) {
+        await removePage(land.handle)
+      }
+      // The mapping points at the old page; publish writes it again
+      if (land.custom_domain) {
+        await deleteDomainMapping(land.custom_domain)
+      }
+    } catch {
+      return new Response(JSON.stringify({ error: 'Failed to remove the page from Cloudflare' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    const { error: updateError } = await supabase
+      .from('lands')
+      .update({ is_published: false, published_handle: null, updated_at: new Date().toISOString() })
+      .eq('id', landId)
+
+    if (updateError) console.error('Unpublish update error:', updateError.message)
+
+    return new Response(JSON.stringify({ unpublished: true }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  } catch (err) {
+    console.error('Unpublish error:', err)
+    return new Response(JSON.stringify({ error: 'Internal error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  }
+})
@@ -1,4 +1,6 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { putDomainMapping, deleteDomainMapping } from '../publish/kv.ts'
+import { addCustomHostname, isCustomHostnameActive } from '../manage-domain/hostnames.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': Deno.env.get('ALLOWED_ORIGIN') ?? 'https://lands.app',
@@ -13,11 +15,6 @@ Deno.serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const vercelToken = Deno.env.get('VERCEL_TOKEN')!
-    const vercelProjectId = Deno.env.get('VERCEL_PROJECT_ID')!
-    const vercelTeamId = Deno.env.get('VERCEL_TEAM_ID') ?? ''
-
-    const teamQuery = vercelTeamId ? `?teamId=${vercelTeamId}` : ''
 
     // ─── Auth ───
     const authHeader = req.headers.get('Authorization') ?? ''
@@ -37,7 +34,7 @@ Deno.serve(async (req) => {
     // ─── Get land ───
     const { data: land, error: landError } = await supabase
       .from('lands')
-      .select('id, user_id, custom_domain, custom_domain_status')
+      .select('id, handle, custom_domain, custom_domain_status')
       .eq('id', landId)
       .single()
 
@@ -46,7 +43,8 @@ Deno.serve(async (req) => {
         status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       })
     }
-    if (land.user_id !== caller.id) {
+    const { data: allowed } = await supabaseUser.rpc('land_can', { p_land_id: land.id, p_action: 'manage_domains' })
+    if (!allowed) {
       return new Response(JSON.stringify({ error: 'Forbidden' }), {
         status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       })
@@ -57,31 +55,21 @@ Deno.serve(async (req) => {
       })
     }
 
-    // ─── Get domain status from Vercel ───
-    const statusRes = await fetch(
-      `https://api.vercel.com/v9/projects/${vercelProjectId}/domains/${encodeURIComponent(land.custom_domain)}${teamQuery}`,
-      { headers: { Authorization: `Bearer ${vercelToken}` } },
-    )
-    const statusData = await statusRes.json()
-
-    if (statusData.error) {
-      return new Response(JSON.stringify({ status: 'pending' }), {
-        status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      })
-    }
+    // ─── Get hostname status from Cloudflare ───
+    // Registering again is a no-op, and repairs a domain connected before it was registered
+    await addCustomHostname(land.custom_domain)
+    const verified = await isCustomHostnameActive(land.custom_domain)
 
-    const verified: boolean = statusData.verified ?? false
+    const newStatus = verified ? 'active' : 'pending'
 
-    // Trigger Vercel's verification check
-    if (!verified) {
-      await fetch(
-        `https://api.vercel.com/v9/projects/${vercelProjectId}/domains/${encodeURIComponent(land.custom_domain)}/verify${teamQuery}`,
-        { method: 'POST', headers: { Authorization: `Bearer ${vercelToken}` } },
-      )
+    // ─── Edge routing: the worker resolves custom hostnames through KV ───
+    // Written on every active check so a re-verify also repairs a stale handle
+    if (newStatus === 'active') {
+      await putDomainMapping(land.custom_domain, land.handle)
+    } else if (land.custom_domain_status === 'active') {
+      await deleteDomainMapping(land.custom_domain)
     }
 
-    const newStatus = verified ? 'active' : 'pending'
-
     if (newStatus !== land.custom_domain_status) {
       await supabase
         .from('lands')
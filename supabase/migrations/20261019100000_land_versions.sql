@@ -0,0 +1,29 @@
+-- Every publish is recorded as a version so a bad publish can be rolled back
+CREATE TABLE IF NOT EXISTS land_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  land_id uuid NOT NULL REFERENCES lands(id) ON DELETE CASCADE,
+  version text NOT NULL,            -- KV metadata version served as the ETag
+  html text NOT NULL,               -- exact page written to LANDS_PAGES
+  land jsonb NOT NULL,              -- source fields the page was rendered from (no secrets)
+  published_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  published_by_email text,
+  restored_from uuid REFERENCES land_versions(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS land_versions_land_id_created_at_idx
+  ON land_versions (land_id, created_at DESC);
+
+-- Written only by the publish edge function (service role); owners and active collaborators can read
+ALTER TABLE land_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "land_versions_select_members" ON land_versions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM lands WHERE lands.id = land_versions.land_id AND lands.user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM collaborators
+      WHERE collaborators.land_id = land_versions.land_id
+        AND collaborators.email = auth.jwt() ->> 'email'
+        AND collaborators.status = 'active'
+    )
+  );
@@ -0,0 +1,7 @@
+-- The handle a land's page is currently served under in Cloudflare KV (null when offline).
+-- Set by the publish function, cleared by unpublish. Differs from `handle` after a rename
+-- until the old page has been taken down.
+ALTER TABLE lands
+  ADD COLUMN IF NOT EXISTS published_handle text;
+
+UPDATE lands SET published_handle = handle WHERE is_published AND published_handle IS NULL;
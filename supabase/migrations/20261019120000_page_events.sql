@@ -0,0 +1,81 @@
+-- Cookieless visitor analytics recorded by the Cloudflare worker (service role).
+-- No IP addresses, user agents or identifiers are stored — only the coarse fields below.
+CREATE TABLE IF NOT EXISTS page_events (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  land_id uuid NOT NULL REFERENCES lands(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('view', 'click')),
+  referrer text,                    -- referring hostname; null for direct / same-site
+  country text,                     -- ISO 3166-1 alpha-2 from Cloudflare
+  device text CHECK (device IN ('desktop', 'mobile', 'tablet')),
+  target text,                      -- clicks: outbound URL
+  label text,                       -- clicks: link text
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS page_events_land_id_created_at_idx
+  ON page_events (land_id, created_at DESC);
+
+ALTER TABLE page_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "page_events_select_members" ON page_events
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM lands WHERE lands.id = page_events.land_id AND lands.user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM collaborators
+      WHERE collaborators.land_id = page_events.land_id
+        AND collaborators.email = auth.jwt() ->> 'email'
+        AND collaborators.status = 'active'
+    )
+  );
+
+-- Dashboard aggregates for the last `p_days` days (UTC). Runs as the caller, so RLS limits
+-- it to lands they own or collaborate on.
+CREATE OR REPLACE FUNCTION land_analytics(p_land_id uuid, p_days int)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH events AS (
+    SELECT * FROM page_events
+    WHERE land_id = p_land_id
+      AND created_at >= (current_date - (p_days - 1))::timestamptz
+  ),
+  views AS (SELECT * FROM events WHERE kind = 'view')
+  SELECT jsonb_build_object(
+    'total_views', (SELECT count(*) FROM views),
+    'daily', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('day', d.day::date, 'views', coalesce(v.views, 0)) ORDER BY d.day), '[]'::jsonb)
+      FROM generate_series(current_date - (p_days - 1), current_date, interval '1 day') AS d(day)
+      LEFT JOIN (
+        SELECT created_at::date AS day, count(*) AS views FROM views GROUP BY 1
+      ) v ON v.day = d.day::date
+    ),
+    'referrers', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('label', r.referrer, 'count', r.count) ORDER BY r.count DESC), '[]'::jsonb)
+      FROM (
+        SELECT referrer, count(*) AS count FROM views GROUP BY referrer ORDER BY count(*) DESC LIMIT 6
+      ) r
+    ),
+    'countries', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('label', c.country, 'count', c.count) ORDER BY c.count DESC), '[]'::jsonb)
+      FROM (
+        SELECT country, count(*) AS count FROM views WHERE country IS NOT NULL GROUP BY country ORDER BY count(*) DESC LIMIT 6
+      ) c
+    ),
+    'devices', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('label', dv.device, 'count', dv.count) ORDER BY dv.count DESC), '[]'::jsonb)
+      FROM (
+        SELECT device, count(*) AS count FROM views WHERE device IS NOT NULL GROUP BY device
+      ) dv
+    ),
+    'clicks', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('label', k.label, 'url', k.target, 'count', k.count) ORDER BY k.count DESC), '[]'::jsonb)
+      FROM (
+        SELECT target, max(label) AS label, count(*) AS count
+        FROM events WHERE kind = 'click' AND target IS NOT NULL
+        GROUP BY target ORDER BY count(*) DESC LIMIT 10
+      ) k
+    )
+  )
+$$;
@@ -0,0 +1,83 @@
+-- Store purchases, written by the stripe-connect-webhook function when a Checkout session completes
+CREATE TABLE IF NOT EXISTS orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  number bigint GENERATED BY DEFAULT AS IDENTITY (START WITH 1001) UNIQUE, -- shown as #1001
+  land_id uuid NOT NULL REFERENCES lands(id) ON DELETE CASCADE,
+  stripe_session_id text NOT NULL UNIQUE,   -- webhook retries upsert on this
+  stripe_payment_intent_id text,
+  store_id text,
+  item_id text,
+  item_title text NOT NULL,
+  variant text,                             -- e.g. "Size: M", null when the item has none
+  quantity integer NOT NULL DEFAULT 1,
+  amount integer NOT NULL,                  -- total charged, minor units
+  fee integer NOT NULL DEFAULT 0,           -- platform application fee, minor units
+  currency text NOT NULL DEFAULT 'usd',
+  buyer_name text,
+  buyer_email text,
+  shipping_address jsonb,                   -- Stripe address object + name, null for digital items
+  status text NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'shipped', 'delivered')),
+  tracking_number text,
+  shipped_at timestamptz,
+  delivered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS orders_land_id_created_at_idx
+  ON orders (land_id, created_at DESC);
+
+-- Orders only move forward (new → shipped → delivered); stamp each step
+CREATE OR REPLACE FUNCTION orders_advance_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  steps constant text[] := ARRAY['new', 'shipped', 'delivered'];
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF array_position(steps, NEW.status) < array_position(steps, OLD.status) THEN
+      RAISE EXCEPTION 'Order status cannot move from % back to %', OLD.status, NEW.status;
+    END IF;
+    IF NEW.status IN ('shipped', 'delivered') AND NEW.shipped_at IS NULL THEN
+      NEW.shipped_at := now();
+    END IF;
+    IF NEW.status = 'delivered' THEN
+      NEW.delivered_at := now();
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_advance_status
+  BEFORE UPDATE ON orders
+  FOR EACH ROW EXECUTE FUNCTION orders_advance_status();
+
+-- Inserted only by the webhook (service role). Owners and active collaborators can read
+-- orders and update their fulfilment — nothing about the purchase itself.
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+
+REVOKE UPDATE ON orders FROM authenticated;
+GRANT UPDATE (status, tracking_number) ON orders TO authenticated;
+
+CREATE POLICY "orders_select_members" ON orders
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM lands WHERE lands.id = orders.land_id AND lands.user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM collaborators
+      WHERE collaborators.land_id = orders.land_id
+        AND collaborators.email = auth.jwt() ->> 'email'
+        AND collaborators.status = 'active'
+    )
+  );
+
+CREATE POLICY "orders_update_members" ON orders
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM lands WHERE lands.id = orders.land_id AND lands.user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM collaborators
+      WHERE collaborators.land_id = orders.land_id
+        AND collaborators.email = auth.jwt() ->> 'email'
+        AND collaborators.status = 'active'
+    )
+  );
@@ -0,0 +1,180 @@
+-- Stock lives in the store item JSON (`inventory`, or per variant option when the item has
+-- variants) for items with `track_inventory`. stripe-checkout reserves it while the buyer is
+-- on Checkout; stripe-connect-webhook decrements it once the payment completes.
+
+-- Units held by open Checkout sessions, so two buyers can't both pay for the last one
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  land_id uuid NOT NULL REFERENCES lands(id) ON DELETE CASCADE,
+  store_id text NOT NULL,
+  item_id text NOT NULL,
+  selection jsonb NOT NULL DEFAULT '{}',  -- { variantId: option value }
+  quantity integer NOT NULL DEFAULT 1,
+  expires_at timestamptz NOT NULL,        -- just after the Checkout session's own expiry
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_reservations_land_item_idx
+  ON stock_reservations (land_id, item_id, expires_at);
+
+-- Service role only
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+-- The item with `p_item_id` in store `p_store_id`, wherever it sits in the sections array
+CREATE OR REPLACE FUNCTION store_item(p_sections jsonb, p_store_id text, p_item_id text)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT i
+  FROM jsonb_array_elements(coalesce(p_sections, '[]')) AS s,
+       jsonb_array_elements(CASE WHEN jsonb_typeof(s -> 'content' -> 'stores') = 'array' THEN s -> 'content' -> 'stores' ELSE '[]' END) AS st,
+       jsonb_array_elements(CASE WHEN jsonb_typeof(st -> 'items') = 'array' THEN st -> 'items' ELSE '[]' END) AS i
+  WHERE st ->> 'id' = p_store_id AND i ->> 'id' = p_item_id
+  LIMIT 1
+$$;
+
+-- `p_sections` with the item's stock (and that of each selected option) reduced by `p_quantity`
+CREATE OR REPLACE FUNCTION store_item_decrement(
+  p_sections jsonb, p_store_id text, p_item_id text, p_selection jsonb, p_quantity integer
+)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(jsonb_agg(
+    CASE WHEN jsonb_typeof(s -> 'content' -> 'stores') = 'array' THEN
+      jsonb_set(s, '{content,stores}', (
+        SELECT coalesce(jsonb_agg(
+          CASE WHEN st ->> 'id' = p_store_id AND jsonb_typeof(st -> 'items') = 'array' THEN
+            jsonb_set(st, '{items}', (
+              SELECT coalesce(jsonb_agg(
+                CASE WHEN i ->> 'id' = p_item_id THEN
+                  jsonb_set(
+                    jsonb_set(i, '{inventory}', to_jsonb(greatest(coalesce((i ->> 'inventory')::int, 0) - p_quantity, 0))),
+                    '{variants}', (
+                      SELECT coalesce(jsonb_agg(
+                        jsonb_set(v, '{options}', (
+                          SELECT coalesce(jsonb_agg(
+                            CASE WHEN o ->> 'value' = p_selection ->> (v ->> 'id')
+                              THEN jsonb_set(o, '{inventory}', to_jsonb(greatest(coalesce((o ->> 'inventory')::int, 0) - p_quantity, 0)))
+                              ELSE o
+                            END ORDER BY oo), '[]')
+                          FROM jsonb_array_elements(coalesce(v -> 'options', '[]')) WITH ORDINALITY AS opts(o, oo)
+                        ))
+                      ORDER BY vo), '[]')
+                      FROM jsonb_array_elements(coalesce(i -> 'variants', '[]')) WITH ORDINALITY AS vars(v, vo)
+                    ))
+                  ELSE i
+                END ORDER BY io), '[]')
+              FROM jsonb_array_elements(st -> 'items') WITH ORDINALITY AS items(i, io)
+            ))
+            ELSE st
+          END ORDER BY sto), '[]')
+        FROM jsonb_array_elements(s -> 'content' -> 'stores') WITH ORDINALITY AS stores(st, sto)
+      ))
+      ELSE s
+    END ORDER BY so), '[]')
+  FROM jsonb_array_elements(coalesce(p_sections, '[]')) WITH ORDINALITY AS secs(s, so)
+$$;
+
+-- Holds stock for a Checkout session. Returns the reservation id, or null when the item
+-- doesn't track inventory. Raises 'sold_out' when the item or a selected option can't
+-- cover `p_quantity` after other open reservations.
+CREATE OR REPLACE FUNCTION reserve_stock(
+  p_land_id uuid, p_store_id text, p_item_id text, p_selection jsonb, p_quantity integer, p_ttl interval
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_item jsonb;
+  v_variant jsonb;
+  v_option jsonb;
+  v_stock integer;
+  v_reserved integer;
+  v_id uuid;
+BEGIN
+  -- The row lock serializes reservations with each other and with commit_stock()
+  SELECT store_item(sections, p_store_id, p_item_id) INTO v_item
+  FROM lands WHERE id = p_land_id
+  FOR UPDATE;
+
+  IF v_item IS NULL THEN
+    RAISE EXCEPTION 'item_not_found';
+  END IF;
+  IF NOT coalesce((v_item ->> 'track_inventory')::boolean, false) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Housekeeping: sessions that expired without a webhook leave stale rows behind
+  DELETE FROM stock_reservations WHERE land_id = p_land_id AND expires_at <= now();
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(coalesce(v_item -> 'variants', '[]')) AS v
+    WHERE jsonb_array_length(coalesce(v -> 'options', '[]')) > 0
+  ) THEN
+    SELECT coalesce(sum(quantity), 0) INTO v_reserved
+    FROM stock_reservations
+    WHERE land_id = p_land_id AND item_id = p_item_id AND expires_at > now();
+
+    IF coalesce((v_item ->> 'inventory')::int, 0) - v_reserved < p_quantity THEN
+      RAISE EXCEPTION 'sold_out';
+    END IF;
+  ELSE
+    FOR v_variant IN
+      SELECT v FROM jsonb_array_elements(v_item -> 'variants') AS v
+      WHERE jsonb_array_length(coalesce(v -> 'options', '[]')) > 0
+    LOOP
+      SELECT o INTO v_option
+      FROM jsonb_array_elements(v_variant -> 'options') AS o
+      WHERE o ->> 'value' = p_selection ->> (v_variant ->> 'id');
+
+      IF v_option IS NULL THEN
+        RAISE EXCEPTION 'invalid_selection';
+      END IF;
+
+      v_stock := coalesce((v_option ->> 'inventory')::int, 0);
+
+      SELECT coalesce(sum(quantity), 0) INTO v_reserved
+      FROM stock_reservations
+      WHERE land_id = p_land_id AND item_id = p_item_id AND expires_at > now()
+        AND selection ->> (v_variant ->> 'id') = v_option ->> 'value';
+
+      IF v_stock - v_reserved < p_quantity THEN
+        RAISE EXCEPTION 'sold_out';
+      END IF;
+    END LOOP;
+  END IF;
+
+  INSERT INTO stock_reservations (land_id, store_id, item_id, selection, quantity, expires_at)
+  VALUES (p_land_id, p_store_id, p_item_id, coalesce(p_selection, '{}'), p_quantity, now() + p_ttl)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Takes sold units out of stock and drops the reservation that held them
+CREATE OR REPLACE FUNCTION commit_stock(
+  p_land_id uuid, p_store_id text, p_item_id text, p_selection jsonb, p_quantity integer, p_reservation_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE lands
+  SET sections = store_item_decrement(sections, p_store_id, p_item_id, coalesce(p_selection, '{}'), p_quantity),
+      updated_at = now()
+  WHERE id = p_land_id
+    AND coalesce((store_item(sections, p_store_id, p_item_id) ->> 'track_inventory')::boolean, false);
+
+  IF p_reservation_id IS NOT NULL THEN
+    DELETE FROM stock_reservations WHERE id = p_reservation_id;
+  END IF;
+END;
+$$;
+
+-- Edge functions call these with the service role; nobody else should
+REVOKE EXECUTE ON FUNCTION reserve_stock(uuid, text, text, jsonb, integer, interval) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION commit_stock(uuid, text, text, jsonb, integer, uuid) FROM PUBLIC, anon, authenticated;
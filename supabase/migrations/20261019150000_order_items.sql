@@ -0,0 +1,21 @@
+-- Cart checkouts buy several items at once: an order now holds its lines in `items`
+-- ([{ store_id, item_id, title, variant, quantity, amount }], amount in minor units per line)
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS items jsonb NOT NULL DEFAULT '[]';
+
+UPDATE orders
+SET items = jsonb_build_array(jsonb_build_object(
+  'store_id', store_id,
+  'item_id', item_id,
+  'title', item_title,
+  'variant', variant,
+  'quantity', quantity,
+  'amount', amount
+))
+WHERE items = '[]';
+
+ALTER TABLE orders
+  DROP COLUMN IF EXISTS store_id,
+  DROP COLUMN IF EXISTS item_id,
+  DROP COLUMN IF EXISTS item_title,
+  DROP COLUMN IF EXISTS variant,
+  DROP COLUMN IF EXISTS quantity;
@@ -0,0 +1,76 @@
+-- Digital products are stored in the private `downloads` bucket (object paths end with the
+-- original file name) and only ever reach buyers through short-lived signed URLs
+-- handed out by the `download` function.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('downloads', 'downloads', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Editors upload into their own folder; nobody reads the bucket directly
+CREATE POLICY "downloads_insert_own" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'downloads' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "downloads_delete_own" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'downloads' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Secret part of the buyer's download page URL, set when an order contains digital items
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS download_token text UNIQUE;
+
+-- One row per digital item in an order, written by stripe-connect-webhook
+CREATE TABLE IF NOT EXISTS order_downloads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  item_id text,
+  title text NOT NULL,
+  file_path text,                          -- object in the `downloads` bucket
+  file_url text,                           -- items uploaded before the bucket existed (public link)
+  download_count integer NOT NULL DEFAULT 0,
+  max_downloads integer NOT NULL DEFAULT 5,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (file_path IS NOT NULL OR file_url IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS order_downloads_order_id_idx ON order_downloads (order_id);
+
+-- Written by the service role only. Owners and active collaborators can see how much of
+-- each buyer's allowance is left.
+ALTER TABLE order_downloads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "order_downloads_select_members" ON order_downloads
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      JOIN lands ON lands.id = orders.land_id
+      WHERE orders.id = order_downloads.order_id
+        AND (
+          lands.user_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM collaborators
+            WHERE collaborators.land_id = lands.id
+              AND collaborators.email = auth.jwt() ->> 'email'
+              AND collaborators.status = 'active'
+          )
+        )
+    )
+  );
+
+-- Counts one download of `p_download_id` for the order behind `p_token` and returns the
+-- file to sign. No row when the token doesn't match, the link expired or the limit is used up.
+CREATE OR REPLACE FUNCTION claim_download(p_token text, p_download_id uuid)
+RETURNS TABLE (file_path text, file_url text)
+LANGUAGE sql
+AS $$
+  UPDATE order_downloads d
+  SET download_count = d.download_count + 1
+  FROM orders o
+  WHERE d.id = p_download_id
+    AND o.id = d.order_id
+    AND o.download_token = p_token
+    AND d.expires_at > now()
+    AND d.download_count < d.max_downloads
+  RETURNING d.file_path, d.file_url
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_download(text, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,5 @@
+-- Currency the land's stores sell in (ISO 4217, lower-case as Stripe uses it). Set through
+-- the store-currency function, which checks it against the connected Stripe account.
+ALTER TABLE lands
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'usd'
+  CHECK (currency ~ '^[a-z]{3}$');
@@ -0,0 +1,70 @@
+-- Paid memberships for monetize collections. One row per Stripe subscription, created by
+-- stripe-connect-webhook when the buyer completes membership-checkout and kept in step with
+-- the subscription's status afterwards. Members are identified by email only — they sign in
+-- on the land's domain with a one-time link, never with a Lands account.
+CREATE TABLE IF NOT EXISTS memberships (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  land_id uuid NOT NULL REFERENCES lands(id) ON DELETE CASCADE,
+  section_id text,
+  collection_id text NOT NULL,
+  collection_title text NOT NULL,
+  email text NOT NULL,                     -- lowercased
+  name text,
+  stripe_customer_id text,
+  stripe_subscription_id text NOT NULL UNIQUE,
+  status text NOT NULL,                    -- Stripe subscription status (active, past_due, canceled, …)
+  amount integer NOT NULL DEFAULT 0,       -- per billing period, minor units
+  currency text NOT NULL,
+  billing_period text NOT NULL CHECK (billing_period IN ('monthly', 'yearly')),
+  current_period_end timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS memberships_land_email_idx ON memberships (land_id, email);
+
+-- Written by the service role only. Owners and active collaborators see their members.
+ALTER TABLE memberships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "memberships_select_members" ON memberships
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM lands
+      WHERE lands.id = memberships.land_id
+        AND (
+          lands.user_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM collaborators
+            WHERE collaborators.land_id = lands.id
+              AND collaborators.email = auth.jwt() ->> 'email'
+              AND collaborators.status = 'active'
+          )
+        )
+    )
+  );
+
+-- One-time sign-in links emailed by member-login. Service role only (no policies).
+CREATE TABLE IF NOT EXISTS member_logins (
+  token text PRIMARY KEY,
+  land_id uuid NOT NULL REFERENCES lands(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE member_logins ENABLE ROW LEVEL SECURITY;
+
+-- Used by the worker when a member opens their sign-in link: consumes the token and
+-- returns the email it was sent to, or nothing when it's unknown, used or expired.
+CREATE OR REPLACE FUNCTION claim_member_login(p_token text, p_land_id uuid)
+RETURNS text
+LANGUAGE sql
+AS $$
+  DELETE FROM member_logins
+  WHERE token = p_token
+    AND land_id = p_land_id
+    AND expires_at > now()
+  RETURNING email
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_member_login(text, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,61 @@
+-- Every campaign signup, recorded before it is forwarded to the land's email provider so
+-- a provider outage or an expired key never loses it. `subscribe` tries the provider right
+-- away; rows it couldn't sync are retried with backoff by `sync-subscribers`.
+CREATE TABLE IF NOT EXISTS subscribers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  land_id uuid NOT NULL REFERENCES lands(id) ON DELETE CASCADE,
+  email text NOT NULL,                     -- lowercased
+  name text,
+  section_id text,                         -- campaign section the form was in (null on older pages)
+  provider text,                           -- provider the row was last synced (or tried) with
+  sync_status text NOT NULL DEFAULT 'pending'
+    CHECK (sync_status IN ('pending', 'synced', 'failed', 'skipped')),
+  sync_attempts integer NOT NULL DEFAULT 0,
+  sync_error text,
+  next_sync_at timestamptz,                -- when `pending` rows are due for another try
+  synced_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (land_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS subscribers_due_idx ON subscribers (next_sync_at) WHERE sync_status = 'pending';
+
+-- Written by the service role only. Owners and active collaborators see their list.
+ALTER TABLE subscribers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "subscribers_select_members" ON subscribers
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM lands
+      WHERE lands.id = subscribers.land_id
+        AND (
+          lands.user_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM collaborators
+            WHERE collaborators.land_id = lands.id
+              AND collaborators.email = auth.jwt() ->> 'email'
+              AND collaborators.status = 'active'
+          )
+        )
+    )
+  );
+
+-- Retry queue: call `sync-subscribers` every five minutes. The project URL and the
+-- function's CRON_SECRET are read from Vault (`project_url`, `cron_secret`).
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'sync-subscribers',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sync-subscribers',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
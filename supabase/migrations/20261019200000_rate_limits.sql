@@ -0,0 +1,36 @@
+-- Fixed-window request counters for the public functions published pages call (see
+-- publish/guard.ts). Keys name the function and what is limited, e.g.
+-- `subscribe:ip:<hash>` or `stripe-checkout:land:<id>`.
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key text PRIMARY KEY,
+  window_start timestamptz NOT NULL DEFAULT now(),
+  hits integer NOT NULL DEFAULT 1
+);
+
+-- Service role only
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Counts one hit for `p_key` and returns whether it is still within `p_limit` for the
+-- current window. A window that has run out starts over at this hit.
+CREATE OR REPLACE FUNCTION hit_rate_limit(p_key text, p_limit integer, p_window interval)
+RETURNS boolean
+LANGUAGE sql
+AS $$
+  INSERT INTO rate_limits AS r (key, window_start, hits)
+  VALUES (p_key, now(), 1)
+  ON CONFLICT (key) DO UPDATE SET
+    window_start = CASE WHEN r.window_start + p_window <= now() THEN now() ELSE r.window_start END,
+    hits         = CASE WHEN r.window_start + p_window <= now() THEN 1 ELSE r.hits + 1 END
+  RETURNING hits <= p_limit
+$$;
+
+REVOKE EXECUTE ON FUNCTION hit_rate_limit(text, integer, interval) FROM PUBLIC, anon, authenticated;
+
+-- Windows are an hour at most; drop counters nobody has hit for a day
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'prune-rate-limits',
+  '17 * * * *',
+  $$ DELETE FROM rate_limits WHERE window_start < now() - interval '1 day' $$
+);
@@ -0,0 +1,49 @@
+-- Signing secrets for lands whose campaign forwards signups to their own endpoint (the
+-- `webhook` and `custom` providers). Generated by `campaign-webhook` and shown to the owner
+-- once; service role only (no policies), so the dashboard can never read one back.
+CREATE TABLE IF NOT EXISTS webhook_secrets (
+  land_id uuid PRIMARY KEY REFERENCES lands(id) ON DELETE CASCADE,
+  secret text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE webhook_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Deliveries the endpoint didn't accept — one row per subscriber, updated on every retry
+-- (automatic or a replay from the dashboard) and marked delivered once one gets through.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  land_id uuid NOT NULL REFERENCES lands(id) ON DELETE CASCADE,
+  subscriber_id uuid NOT NULL UNIQUE REFERENCES subscribers(id) ON DELETE CASCADE,
+  url text NOT NULL,
+  payload jsonb NOT NULL,                  -- body as sent; replays send it again, freshly signed
+  status text NOT NULL DEFAULT 'failed' CHECK (status IN ('failed', 'delivered')),
+  attempts integer NOT NULL DEFAULT 1,
+  response_status integer,                 -- null when the endpoint couldn't be reached
+  error text,
+  last_attempt_at timestamptz NOT NULL DEFAULT now(),
+  delivered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_land_idx ON webhook_deliveries (land_id, last_attempt_at DESC);
+
+-- Written by the service role only. Owners and active collaborators see the log.
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "webhook_deliveries_select_members" ON webhook_deliveries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM lands
+      WHERE lands.id = webhook_deliveries.land_id
+        AND (
+          lands.user_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM collaborators
+            WHERE collaborators.land_id = lands.id
+              AND collaborators.email = auth.jwt() ->> 'email'
+              AND collaborators.status = 'active'
+          )
+        )
+    )
+  );
@@ -0,0 +1,108 @@
+-- Campaign provider credentials (API keys, custom-provider headers, the webhook signing
+-- secret) move out of `lands.campaign_integration`, which every owner and collaborator
+-- downloads, into Vault: encrypted at rest and readable only by the service role. The
+-- integration keeps what the dashboard shows — provider, list, endpoint, header names and
+-- a masked key (`api_key_hint`).
+--
+-- One Vault secret per land, named `campaign_credentials:<land id>`, holding
+-- { api_key?, headers?, signing_secret? } as JSON.
+
+CREATE OR REPLACE FUNCTION get_campaign_credentials(p_land_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT decrypted_secret::jsonb
+  FROM vault.decrypted_secrets
+  WHERE name = 'campaign_credentials:' || p_land_id
+$$;
+
+-- Merges `p_changes` into the land's credentials; a null value removes that field, and a
+-- null `p_changes` (or nothing left) removes the secret altogether.
+CREATE OR REPLACE FUNCTION update_campaign_credentials(p_land_id uuid, p_changes jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name text := 'campaign_credentials:' || p_land_id;
+  v_id uuid;
+  v_current jsonb;
+  v_next jsonb;
+BEGIN
+  SELECT id, decrypted_secret::jsonb INTO v_id, v_current
+  FROM vault.decrypted_secrets
+  WHERE name = v_name;
+
+  v_next := CASE WHEN p_changes IS NULL THEN '{}'::jsonb
+                 ELSE jsonb_strip_nulls(coalesce(v_current, '{}'::jsonb) || p_changes) END;
+
+  IF v_next = '{}'::jsonb THEN
+    DELETE FROM vault.secrets WHERE id = v_id;
+  ELSIF v_id IS NULL THEN
+    PERFORM vault.create_secret(v_next::text, v_name);
+  ELSE
+    PERFORM vault.update_secret(v_id, v_next::text);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_campaign_credentials(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_campaign_credentials(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Deleted lands take their credentials with them
+CREATE OR REPLACE FUNCTION delete_campaign_credentials()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM vault.secrets WHERE name = 'campaign_credentials:' || OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER lands_delete_campaign_credentials
+  AFTER DELETE ON lands
+  FOR EACH ROW EXECUTE FUNCTION delete_campaign_credentials();
+
+-- ─── Move existing credentials ───
+
+SELECT update_campaign_credentials(id, jsonb_build_object(
+  'api_key', campaign_integration->'config'->'api_key',
+  'headers', campaign_integration->'config'->'headers'
+))
+FROM lands
+WHERE campaign_integration->'config' ?| array['api_key', 'headers'];
+
+UPDATE lands
+SET campaign_integration = jsonb_set(
+  campaign_integration,
+  '{config}',
+  jsonb_strip_nulls(
+    (campaign_integration->'config' - 'api_key' - 'headers')
+    || jsonb_build_object(
+      'api_key_hint', CASE
+        WHEN campaign_integration->'config'->>'api_key' IS NULL THEN NULL
+        WHEN length(campaign_integration->'config'->>'api_key') >= 8 THEN '••••' || right(campaign_integration->'config'->>'api_key', 4)
+        ELSE '••••'
+      END,
+      'header_names', CASE WHEN jsonb_typeof(campaign_integration->'config'->'headers') = 'object'
+        THEN (SELECT jsonb_agg(k) FROM jsonb_object_keys(campaign_integration->'config'->'headers') AS k)
+      END
+    )
+  )
+)
+WHERE campaign_integration->'config' ?| array['api_key', 'headers'];
+
+SELECT update_campaign_credentials(land_id, jsonb_build_object('signing_secret', secret))
+FROM webhook_secrets;
+
+DROP TABLE webhook_secrets;
+
+-- Nothing writes them back where the browser can read them
+ALTER TABLE lands ADD CONSTRAINT lands_campaign_integration_no_secrets
+  CHECK (NOT coalesce(campaign_integration->'config' ?| array['api_key', 'headers'], false));
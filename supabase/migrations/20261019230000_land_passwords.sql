@@ -0,0 +1,57 @@
+-- Private-land passwords are stored as PBKDF2-SHA256 hashes, set through the
+-- `private-password` edge function, instead of the plaintext `lands.private_password` every
+-- owner and collaborator could read back. The hash is what `publish` writes to the page's KV
+-- metadata for the worker to verify against. Service role only (no policies).
+CREATE TABLE IF NOT EXISTS land_passwords (
+  land_id uuid PRIMARY KEY REFERENCES lands(id) ON DELETE CASCADE,
+  salt text NOT NULL,       -- base64
+  hash text NOT NULL,       -- base64
+  iterations integer NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE land_passwords ENABLE ROW LEVEL SECURITY;
+
+-- What the dashboard sees: whether (and since when) a password is set
+ALTER TABLE lands ADD COLUMN IF NOT EXISTS private_password_set_at timestamptz;
+
+-- ─── Hash existing passwords ───
+-- Same parameters and salt (`SHA-256("lands-gate:<land id>")`, first 16 bytes) the publish
+-- function used to hash them on every publish, so the hashes already in KV — and the access
+-- cookies visitors hold, which are bound to them — stay valid.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- PBKDF2-HMAC-SHA256 with a single 32-byte block
+CREATE FUNCTION pg_temp.pbkdf2_sha256(p_password text, p_salt bytea, p_iterations integer)
+RETURNS bytea
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_key bytea := convert_to(p_password, 'UTF8');
+  v_u bytea := extensions.hmac(p_salt || '\x00000001'::bytea, v_key, 'sha256');
+  v_bits bit(256) := ('x' || encode(v_u, 'hex'))::bit(256);
+  v_out bytea := decode(repeat('00', 32), 'hex');
+BEGIN
+  FOR i IN 2..p_iterations LOOP
+    v_u := extensions.hmac(v_u, v_key, 'sha256');
+    v_bits := v_bits # ('x' || encode(v_u, 'hex'))::bit(256);
+  END LOOP;
+  FOR i IN 0..31 LOOP
+    v_out := set_byte(v_out, i, substring(v_bits FROM i * 8 + 1 FOR 8)::integer);
+  END LOOP;
+  RETURN v_out;
+END;
+$$;
+
+INSERT INTO land_passwords (land_id, salt, hash, iterations)
+SELECT l.id, encode(s.salt, 'base64'), encode(pg_temp.pbkdf2_sha256(l.private_password, s.salt, 100000), 'base64'), 100000
+FROM lands l,
+  LATERAL (SELECT substring(extensions.digest('lands-gate:' || l.id, 'sha256') FROM 1 FOR 16) AS salt) s
+WHERE l.private_password IS NOT NULL AND l.private_password <> ''
+ON CONFLICT (land_id) DO NOTHING;
+
+UPDATE lands SET private_password_set_at = now()
+WHERE id IN (SELECT land_id FROM land_passwords);
+
+ALTER TABLE lands DROP COLUMN IF EXISTS private_password;
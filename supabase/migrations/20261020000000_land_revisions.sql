@@ -0,0 +1,26 @@
+-- Optimistic concurrency for the editor. `revision` goes up whenever the content the editor
+-- saves (sections, theme, title, handle) changes, whoever changes it — a collaborator's save,
+-- a version restore, a sale taking stock out of `sections`. Saves send the revision they
+-- started from and only apply while it's still current; otherwise the editor merges.
+ALTER TABLE lands ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION bump_land_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Clients can't set it themselves
+  NEW.revision := OLD.revision;
+  IF NEW.sections IS DISTINCT FROM OLD.sections
+    OR NEW.theme IS DISTINCT FROM OLD.theme
+    OR NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.handle IS DISTINCT FROM OLD.handle THEN
+    NEW.revision := OLD.revision + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lands_bump_revision
+  BEFORE UPDATE ON lands
+  FOR EACH ROW EXECUTE FUNCTION bump_land_revision();
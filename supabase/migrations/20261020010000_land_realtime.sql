@@ -0,0 +1,41 @@
+-- Live collaboration in the editor. Each land has a private Realtime channel `land:<id>`
+-- where the owner and active collaborators share presence (who's online, which section
+-- they have open). Saves reach the others as `lands` row changes — the editor only reads
+-- the new `revision` from them and fetches the draft itself.
+ALTER PUBLICATION supabase_realtime ADD TABLE lands;
+
+CREATE POLICY "land_channel_select_members" ON realtime.messages
+  FOR SELECT TO authenticated USING (
+    realtime.messages.extension = 'presence'
+    AND EXISTS (
+      SELECT 1 FROM lands
+      WHERE 'land:' || lands.id::text = realtime.topic()
+        AND (
+          lands.user_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM collaborators
+            WHERE collaborators.land_id = lands.id
+              AND collaborators.email = auth.jwt() ->> 'email'
+              AND collaborators.status = 'active'
+          )
+        )
+    )
+  );
+
+CREATE POLICY "land_channel_insert_members" ON realtime.messages
+  FOR INSERT TO authenticated WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND EXISTS (
+      SELECT 1 FROM lands
+      WHERE 'land:' || lands.id::text = realtime.topic()
+        AND (
+          lands.user_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM collaborators
+            WHERE collaborators.land_id = lands.id
+              AND collaborators.email = auth.jwt() ->> 'email'
+              AND collaborators.status = 'active'
+          )
+        )
+    )
+  );
@@ -0,0 +1,146 @@
+-- What each role may do on a land. The owner can do everything; collaborators get what
+-- their role allows:
+--
+--   action                 owner  admin  editor
+--   edit_content             ✓      ✓      ✓     sections, theme, title, images, SEO
+--   publish                  ✓      ✓            publish/unpublish, versions, handle, privacy
+--   manage_domains           ✓      ✓            custom domain
+--   manage_integrations      ✓      ✓            campaign integration, webhook deliveries
+--   manage_collaborators     ✓      ✓            invite, change roles, remove
+--   manage_orders            ✓      ✓            mark orders shipped/delivered, resend downloads
+--   manage_stripe            ✓                   connected Stripe account, store currency
+--   manage_billing           ✓                   the land's plan and subscription
+--   manage_land              ✓                   delete the land, anything not listed here
+--
+-- `land_can()` is the one place the matrix lives: row-level policies and the trigger below
+-- use it, and edge functions ask it through RPC on the caller's client. The dashboard
+-- mirrors it in `LAND_PERMISSIONS` to hide what a role can't do.
+
+-- 'owner', the active collaborator's role, or null
+CREATE OR REPLACE FUNCTION land_role(p_land_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN lands.user_id = auth.uid() THEN 'owner'
+    ELSE (
+      SELECT collaborators.role FROM collaborators
+      WHERE collaborators.land_id = lands.id
+        AND collaborators.email = auth.jwt() ->> 'email'
+        AND collaborators.status = 'active'
+      LIMIT 1
+    )
+  END
+  FROM lands
+  WHERE lands.id = p_land_id
+$$;
+
+CREATE OR REPLACE FUNCTION land_can(p_land_id uuid, p_action text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(land_role(p_land_id) = ANY (CASE p_action
+    WHEN 'edit_content'         THEN ARRAY['owner', 'admin', 'editor']
+    WHEN 'publish'              THEN ARRAY['owner', 'admin']
+    WHEN 'manage_domains'       THEN ARRAY['owner', 'admin']
+    WHEN 'manage_integrations'  THEN ARRAY['owner', 'admin']
+    WHEN 'manage_collaborators' THEN ARRAY['owner', 'admin']
+    WHEN 'manage_orders'        THEN ARRAY['owner', 'admin']
+    WHEN 'manage_stripe'        THEN ARRAY['owner']
+    WHEN 'manage_billing'       THEN ARRAY['owner']
+    WHEN 'manage_land'          THEN ARRAY['owner']
+    ELSE ARRAY[]::text[]
+  END), false)
+$$;
+
+REVOKE EXECUTE ON FUNCTION land_role(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION land_can(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION land_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION land_can(uuid, text) TO authenticated;
+
+-- ─── lands: each changed column needs the action it belongs to ───
+CREATE OR REPLACE FUNCTION enforce_land_permissions()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  changed text;
+  action text;
+BEGIN
+  -- The service role (edge functions, webhooks) checks for itself
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR changed IN
+    SELECT n.key FROM jsonb_each(to_jsonb(NEW)) n
+    WHERE n.value IS DISTINCT FROM to_jsonb(OLD) -> n.key
+  LOOP
+    action := CASE
+      WHEN changed IN ('sections', 'theme', 'title', 'description', 'avatar_image', 'cover_image',
+                       'meta_title', 'meta_description', 'og_image', 'purpose', 'revision', 'updated_at')
+        THEN 'edit_content'
+      WHEN changed IN ('handle', 'is_published', 'published_handle', 'is_private', 'private_password_set_at')
+        THEN 'publish'
+      WHEN changed IN ('custom_domain', 'custom_domain_status') THEN 'manage_domains'
+      WHEN changed = 'campaign_integration' THEN 'manage_integrations'
+      WHEN changed IN ('stripe_account_id', 'stripe_account_name', 'currency') THEN 'manage_stripe'
+      WHEN changed IN ('plan', 'stripe_customer_id', 'stripe_subscription_id') THEN 'manage_billing'
+      -- user_id, and columns added later until they're sorted in above
+      ELSE 'manage_land'
+    END;
+    IF NOT land_can(OLD.id, action) THEN
+      RAISE EXCEPTION 'Your role on this land can''t change %', changed
+        USING ERRCODE = '42501';
+    END IF;
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after lands_bump_revision (triggers fire by name), so the revision it sets is checked too
+CREATE TRIGGER lands_enforce_permissions
+  BEFORE UPDATE ON lands
+  FOR EACH ROW EXECUTE FUNCTION enforce_land_permissions();
+
+-- Restrictive policies narrow whatever the permissive ones let members do
+CREATE POLICY "lands_update_editors" ON lands
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (land_can(id, 'edit_content'));
+
+CREATE POLICY "lands_delete_owner" ON lands
+  AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (land_can(id, 'manage_land'));
+
+-- ─── collaborators: roles and removals are for those who manage collaborators ───
+-- Invites and acceptance go through edge functions; from the dashboard only the role changes.
+REVOKE UPDATE ON collaborators FROM authenticated;
+GRANT UPDATE (role) ON collaborators TO authenticated;
+
+CREATE POLICY "collaborators_insert_managers" ON collaborators
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (land_can(land_id, 'manage_collaborators'));
+
+CREATE POLICY "collaborators_update_managers" ON collaborators
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (land_can(land_id, 'manage_collaborators'));
+
+-- Invitees can still decline, and collaborators leave
+CREATE POLICY "collaborators_delete_managers" ON collaborators
+  AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (
+    land_can(land_id, 'manage_collaborators')
+    OR email = auth.jwt() ->> 'email'
+  );
+
+-- ─── orders: marking them shipped or delivered is for those who manage orders ───
+DROP POLICY IF EXISTS "orders_update_members" ON orders;
+
+CREATE POLICY "orders_update_managers" ON orders
+  FOR UPDATE TO authenticated
+  USING (land_can(land_id, 'manage_orders'));
@@ -0,0 +1,87 @@
+-- Handing a land to another account. The owner offers it to an email (an active collaborator
+-- or anyone else); the land changes hands when the recipient accepts, through the
+-- `transfer-ownership` edge function. Written by that function only (service role); the
+-- owner and the recipient can read the offer.
+CREATE TABLE IF NOT EXISTS land_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  land_id uuid NOT NULL REFERENCES lands(id) ON DELETE CASCADE,
+  land_title text NOT NULL DEFAULT '',        -- the recipient can't read the land before accepting
+  from_user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_email text NOT NULL,
+  to_email text NOT NULL,                     -- lower-case
+  keep_previous_owner boolean NOT NULL DEFAULT true,   -- stays on as an admin
+  keep_stripe_account boolean NOT NULL DEFAULT false,  -- the connected account goes with the land
+  -- 'accepting' while the recipient's accept hands over Stripe, before the land moves
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepting', 'accepted', 'declined', 'cancelled')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  responded_at timestamptz                    -- also when an accept claimed the offer
+);
+
+-- One open offer per land
+CREATE UNIQUE INDEX IF NOT EXISTS land_transfers_pending_land_idx
+  ON land_transfers (land_id) WHERE status IN ('pending', 'accepting');
+
+CREATE INDEX IF NOT EXISTS land_transfers_pending_to_email_idx
+  ON land_transfers (to_email) WHERE status = 'pending';
+
+ALTER TABLE land_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "land_transfers_select_owner_recipient" ON land_transfers
+  FOR SELECT TO authenticated USING (
+    land_can(land_id, 'manage_land')
+    OR to_email = lower(auth.jwt() ->> 'email')
+  );
+
+-- Moves the land to `p_user_id` once the edge function has claimed the transfer for them
+-- (status 'accepting') and handed over Stripe, all in one transaction: the owner, the
+-- recipient's collaborator row (they own it now), the previous owner's admin seat and the
+-- connected Stripe account unless it was handed over. Returns the land's id, or null when
+-- there's no such claimed offer or the land changed hands since it was made (the offer is
+-- then cancelled).
+CREATE OR REPLACE FUNCTION accept_land_transfer(p_transfer_id uuid, p_user_id uuid, p_email text)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_transfer land_transfers;
+BEGIN
+  SELECT * INTO v_transfer FROM land_transfers
+  WHERE id = p_transfer_id AND status = 'accepting' AND to_email = lower(p_email)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM 1 FROM lands
+  WHERE id = v_transfer.land_id AND user_id = v_transfer.from_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    UPDATE land_transfers SET status = 'cancelled', responded_at = now() WHERE id = p_transfer_id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE lands
+  SET user_id = p_user_id,
+      stripe_account_id = CASE WHEN v_transfer.keep_stripe_account THEN stripe_account_id END,
+      stripe_account_name = CASE WHEN v_transfer.keep_stripe_account THEN stripe_account_name END
+  WHERE id = v_transfer.land_id;
+
+  DELETE FROM collaborators
+  WHERE land_id = v_transfer.land_id
+    AND lower(email) IN (v_transfer.to_email, lower(v_transfer.from_email));
+
+  IF v_transfer.keep_previous_owner THEN
+    INSERT INTO collaborators (land_id, email, role, status, invited_at, joined_at)
+    VALUES (v_transfer.land_id, v_transfer.from_email, 'admin', 'active', now(), now());
+  END IF;
+
+  UPDATE land_transfers SET status = 'accepted', responded_at = now() WHERE id = p_transfer_id;
+
+  RETURN v_transfer.land_id;
+END;
+$$;
+
+-- The edge function calls it with the service role; nobody else should
+REVOKE EXECUTE ON FUNCTION accept_land_transfer(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
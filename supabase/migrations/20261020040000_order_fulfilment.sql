@@ -0,0 +1,51 @@
+-- stripe-connect-webhook fulfils an order in two steps after recording it: taking the sold
+-- units out of stock, and handing out digital downloads. Each is marked done on the order,
+-- so a delivery that failed part-way is picked up again when Stripe retries the event
+-- instead of being skipped because the order row already exists.
+-- (`delivered_at` is the order's own "delivered" status, stamped by orders_advance_status.)
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS stock_committed_at timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS downloads_sent_at timestamptz;  -- downloads written and emailed
+
+-- Orders recorded before this were fulfilled (or logged as failed) on their first delivery
+UPDATE orders SET stock_committed_at = created_at WHERE stock_committed_at IS NULL;
+UPDATE orders SET downloads_sent_at = created_at WHERE downloads_sent_at IS NULL AND download_token IS NOT NULL;
+
+-- Commits every line of an order in one transaction, once. `p_lines` holds
+-- `{ store_id, item_id, selection, quantity, reservation_id }` per line. Returns false when
+-- the order's stock was committed already.
+CREATE OR REPLACE FUNCTION commit_order_stock(p_order_id uuid, p_lines jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_land_id uuid;
+  v_committed timestamptz;
+  v_line jsonb;
+BEGIN
+  -- The row lock keeps a concurrent retry from committing the same order
+  SELECT land_id, stock_committed_at INTO v_land_id, v_committed
+  FROM orders WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_committed IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  FOR v_line IN SELECT l FROM jsonb_array_elements(coalesce(p_lines, '[]')) AS l LOOP
+    PERFORM commit_stock(
+      v_land_id,
+      v_line ->> 'store_id',
+      v_line ->> 'item_id',
+      v_line -> 'selection',
+      (v_line ->> 'quantity')::integer,
+      (v_line ->> 'reservation_id')::uuid
+    );
+  END LOOP;
+
+  UPDATE orders SET stock_committed_at = now() WHERE id = p_order_id;
+  RETURN true;
+END;
+$$;
+
+-- The webhook calls it with the service role; nobody else should
+REVOKE EXECUTE ON FUNCTION commit_order_stock(uuid, jsonb) FROM PUBLIC, anon, authenticated;
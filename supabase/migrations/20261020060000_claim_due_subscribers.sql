@@ -0,0 +1,24 @@
+-- `sync-subscribers` claims the rows it sends instead of just reading them, so two runs that
+-- overlap (a slow run and the next cron tick, or a manual call) never send the same signup
+-- twice. Claiming leases the row: `next_sync_at` moves past the run, and `syncSubscriber()`
+-- sets it again with the outcome. A run that dies leaves the lease to run out, and the row
+-- comes due again on its own.
+CREATE OR REPLACE FUNCTION claim_due_subscribers(p_limit integer, p_lease interval DEFAULT interval '15 minutes')
+RETURNS TABLE (id uuid, land_id uuid, email text, name text, sync_attempts integer)
+LANGUAGE sql
+AS $$
+  UPDATE subscribers s
+  SET next_sync_at = now() + p_lease
+  FROM (
+    SELECT subscribers.id FROM subscribers
+    WHERE sync_status = 'pending' AND next_sync_at <= now()
+    ORDER BY next_sync_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ) due
+  WHERE s.id = due.id
+  RETURNING s.id, s.land_id, s.email, s.name, s.sync_attempts
+$$;
+
+-- The cron function calls it with the service role; nobody else should
+REVOKE EXECUTE ON FUNCTION claim_due_subscribers(integer, interval) FROM PUBLIC, anon, authenticated;
@@ -1,7 +1,57 @@
 export interface Env {
   LANDS_PAGES: KVNamespace
+  GATE_COOKIE_SECRET: string // wrangler secret — signs the private-land access cookie
+  FORM_TOKEN_SECRET: string // wrangler secret — signs form load times; shared with the edge functions
+  SUPABASE_URL: string
+  SUPABASE_SERVICE_ROLE_KEY: string // wrangler secret — writes analytics events
 }
 
+// Mirrors PageMetadata in supabase/functions/publish/types.ts
+interface PasswordGate {
+  salt: string
+  hash: string
+  iterations: number
+}
+
+interface PageMetadata {
+  version: string
+  landId?: string // absent on pages published before analytics
+  gate?: PasswordGate
+}
+
+// Mirrors MembersPages in supabase/functions/publish/types.ts
+interface MembersPages {
+  landId: string
+  login: string
+  items: Record<string, { collectionId: string; paid: boolean; html: string }>
+}
+
+// Mirrors DomainMapping in supabase/functions/publish/kv.ts
+interface DomainMapping {
+  handle: string
+  redirect?: string
+}
+
+const ROOT_DOMAIN = 'lands.app'
+
+const CHECKOUT_PATHS: Record<string, 'success' | 'cancel'> = {
+  '/checkout/success': 'success',
+  '/checkout/cancel': 'cancel',
+}
+
+const CLICK_PATH = '/_lands/click'
+// Mirrors FORM_TOKEN_PATH in supabase/functions/publish/guard.ts
+const FORM_TOKEN_PATH = '/_lands/form-token'
+
+const GATE_COOKIE = 'lands_access'
+const GATE_COOKIE_MAX_AGE = 60 * 60 * 24 * 30 // 30 days
+
+const MEMBERS_PATH = '/members'
+const MEMBER_COOKIE = 'lands_member'
+const MEMBER_COOKIE_MAX_AGE = 60 * 60 * 24 * 30 // 30 days
+// Subscription statuses that unlock paid collections
+const MEMBER_STATUSES = ['active', 'trialing']
+
 // Fast 32-bit hash — good enough for a change-detection ETag
 function hashString(s: string): string {
   let h = 0
@@ -12,40 +62,110 @@ function hashString(s: string): string {
 }
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url)
-    const parts = url.hostname.split('.')
+    const route = await resolveHost(url.hostname, env)
 
-    // Must be a subdomain (handle.lands.app), not lands.app itself
-    if (parts.length < 3) {
-      return new Response(notFoundPage(), {
+    if (!route) {
+      return new Response(notFoundPage(url.hostname === ROOT_DOMAIN ? undefined : url.hostname), {
         status: 404,
         headers: { 'Content-Type': 'text/html; charset=utf-8' },
       })
     }
 
-    const handle = parts[0]
+    // apex ↔ www counterpart of a custom domain — send visitors to the canonical host
+    if (route.redirect) {
+      return Response.redirect(`https://${route.redirect}${url.pathname}${url.search}`, 301)
+    }
+
+    const handle = route.handle
 
     // Read html + metadata (version written by publish function)
     // cacheTtl: 0 bypasses the Worker runtime's 60-second KV read cache so updates are instant
-    const { value: html, metadata } = await env.LANDS_PAGES.getWithMetadata<{ version: string }>(handle, { cacheTtl: 0 })
+    const { value: html, metadata } = await env.LANDS_PAGES.getWithMetadata<PageMetadata>(handle, { cacheTtl: 0 })
 
     if (!html) {
-      return new Response(notFoundPage(handle), {
+      return new Response(notFoundPage(url.hostname), {
         status: 404,
         headers: { 'Content-Type': 'text/html; charset=utf-8' },
       })
     }
 
+    // Outbound click beacon from the page's inline script
+    if (url.pathname === CLICK_PATH) {
+      if (request.method === 'POST' && metadata?.landId) {
+        const click = await request.json<{ url?: unknown; label?: unknown }>().catch(() => null)
+        if (click && typeof click.url === 'string' && /^https?:\/\//.test(click.url)) {
+          ctx.waitUntil(recordEvent(env, request, metadata.landId, 'click', {
+            target: click.url.slice(0, 2000),
+            label: typeof click.label === 'string' ? click.label.slice(0, 100) : null,
+          }))
+        }
+      }
+      return new Response(null, { status: 204 })
+    }
+
+    // Signed load time the page's forms send along, checked by publish/guard.ts
+    if (url.pathname === FORM_TOKEN_PATH) {
+      return new Response(JSON.stringify({ token: await signFormToken(env.FORM_TOKEN_SECRET) }), {
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+      })
+    }
+
+    // ─── Private lands: require a valid access cookie or a correct password ───
+    const gate = metadata?.gate
+    if (gate) {
+      if (request.method === 'POST') {
+        if (await isGateThrottled(env, request, handle)) return gatePage(env, handle, 'throttled')
+        const form = await request.formData().catch(() => null)
+        const password = form?.get('password')
+        if (typeof password === 'string' && await verifyPassword(password, gate)) {
+          const cookie = await signAccess(handle, gate, env.GATE_COOKIE_SECRET)
+          // 303 so a refresh doesn't re-submit the form
+          return new Response(null, {
+            status: 303,
+            headers: {
+              'Location': url.pathname + url.search,
+              'Set-Cookie': `${GATE_COOKIE}=${cookie}; Max-Age=${GATE_COOKIE_MAX_AGE}; Path=/; HttpOnly; Secure; SameSite=Lax`,
+              'Cache-Control': 'no-store',
+            },
+          })
+        }
+        return gatePage(env, handle, 'incorrect')
+      }
+
+      const cookie = readCookie(request, GATE_COOKIE)
+      if (!cookie || !await verifyAccess(cookie, handle, gate, env.GATE_COOKIE_SECRET)) {
+        return gatePage(env, handle, null)
+      }
+    }
+
+    // Monetize collections: sign-in page and item pages for members
+    if (url.pathname === MEMBERS_PATH || url.pathname.startsWith(`${MEMBERS_PATH}/`)) {
+      return membersArea(request, env, handle, url)
+    }
+
+    // Stripe Checkout redirects buyers back here after paying or cancelling
+    const checkoutState = CHECKOUT_PATHS[url.pathname]
+    if (checkoutState) {
+      return checkoutPage(env, handle, checkoutState, url.origin)
+    }
+
+    if (metadata?.landId && isPageview(request)) {
+      ctx.waitUntil(recordEvent(env, request, metadata.landId, 'view', { referrer: referrerHost(request, url) }))
+    }
+
     // Use stored version as ETag when available, fall back to hashing the body
-    const etag = `"${(metadata as any)?.version ?? hashString(html)}"`
+    const etag = `"${metadata?.version ?? hashString(html)}"`
+    // Gated pages must never land in a shared cache
+    const cacheControl = gate ? 'private, no-cache' : 'no-cache'
 
     // Respond 304 if client already has this version
     if (request.headers.get('If-None-Match') === etag) {
       return new Response(null, {
         status: 304,
         headers: {
-          'Cache-Control': 'no-cache',
+          'Cache-Control': cacheControl,
           'ETag': etag,
         },
       })
@@ -55,14 +175,407 @@ export default {
       headers: {
         'Content-Type': 'text/html; charset=utf-8',
         // no-cache: browser always revalidates — ETag makes it a cheap 304 when nothing changed
-        'Cache-Control': 'no-cache',
+        'Cache-Control': cacheControl,
         'ETag': etag,
       },
     })
   },
 }
 
-function notFoundPage(handle?: string): string {
+// ─── Hostname routing ───
+
+// handle.lands.app → handle; anything else is a custom domain looked up in KV
+async function resolveHost(hostname: string, env: Env): Promise<DomainMapping | null> {
+  if (hostname.endsWith(`.${ROOT_DOMAIN}`)) {
+    const parts = hostname.split('.')
+    // Must be a subdomain (handle.lands.app), not lands.app itself
+    return parts.length < 3 ? null : { handle: parts[0] }
+  }
+  if (hostname === ROOT_DOMAIN) return null
+  return env.LANDS_PAGES.get<DomainMapping>(`domain:${hostname}`, { type: 'json', cacheTtl: 60 })
+}
+
+// ─── Analytics ───
+// Cookieless: each event keeps only the land, referring host, country and device class.
+// Nothing identifies the visitor, so there is no consent banner to show.
+
+const BOT_UA = /bot|crawl|spider|slurp|preview|facebookexternalhit|headless|lighthouse/i
+
+function isPageview(request: Request): boolean {
+  if (request.method !== 'GET') return false
+  // Every path serves the page, so skip favicon and other subresource requests
+  const dest = request.headers.get('Sec-Fetch-Dest')
+  if (dest && dest !== 'document') return false
+  // Speculative loads aren't visits
+  const purpose = request.headers.get('Sec-Purpose') ?? request.headers.get('Purpose') ?? ''
+  if (purpose.includes('prefetch')) return false
+  return !BOT_UA.test(request.headers.get('User-Agent') ?? '')
+}
+
+function deviceClass(request: Request): 'desktop' | 'mobile' | 'tablet' {
+  const ua = request.headers.get('User-Agent') ?? ''
+  if (/iPad|Tablet|Android(?!.*Mobile)/i.test(ua)) return 'tablet'
+  if (/Mobi|iPhone|Android/i.test(ua)) return 'mobile'
+  return 'desktop'
+}
+
+// Hostname only — never the full referring URL. Same-site navigation counts as direct.
+function referrerHost(request: Request, url: URL): string | null {
+  const referer = request.headers.get('Referer')
+  if (!referer) return null
+  try {
+    const host = new URL(referer).hostname.replace(/^www\./, '')
+    return host === url.hostname.replace(/^www\./, '') ? null : host
+  } catch {
+    return null
+  }
+}
+
+function supabaseHeaders(env: Env): Record<string, string> {
+  return {
+    'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+    'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    'Content-Type': 'application/json',
+  }
+}
+
+async function recordEvent(
+  env: Env,
+  request: Request,
+  landId: string,
+  kind: 'view' | 'click',
+  fields: { referrer?: string | null; target?: string; label?: string | null },
+): Promise<void> {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) return
+  const country = (request.cf?.country as string | undefined) ?? null
+  try {
+    const res = await fetch(`${env.SUPABASE_URL}/rest/v1/page_events`, {
+      method: 'POST',
+      headers: { ...supabaseHeaders(env), 'Prefer': 'return=minimal' },
+      body: JSON.stringify({ land_id: landId, kind, country, device: deviceClass(request), ...fields }),
+    })
+    if (!res.ok) console.error('Analytics insert failed:', res.status, await res.text())
+  } catch (err) {
+    console.error('Analytics insert failed:', err)
+  }
+}
+
+// ─── Checkout result ───
+
+async function checkoutPage(env: Env, handle: string, state: 'success' | 'cancel', origin: string): Promise<Response> {
+  // Written at publish time for lands with a store
+  const html = await env.LANDS_PAGES.get(`${handle}:checkout`, { cacheTtl: 0 })
+  if (!html) return Response.redirect(`${origin}/`, 302)
+  const response = new Response(html, {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  })
+  return new HTMLRewriter()
+    .on(`[data-checkout="${state}"]`, { element(el) { el.removeAttribute('hidden') } })
+    .transform(response)
+}
+
+// ─── Members area ───
+// Members sign in with a one-time link emailed by the member-login function. Opening it
+// here trades the token for a cookie naming their email; every paid item page then checks
+// that email against the land's memberships, so a cancelled subscription locks the content
+// straight away.
+
+async function membersArea(request: Request, env: Env, handle: string, url: URL): Promise<Response> {
+  // Written at publish time for lands with monetize collections
+  const members = await env.LANDS_PAGES.get<MembersPages>(`${handle}:members`, { type: 'json', cacheTtl: 0 })
+  if (!members) return Response.redirect(`${url.origin}/`, 302)
+
+  const path = url.pathname.slice(MEMBERS_PATH.length).replace(/\/$/, '')
+
+  if (path === '') return htmlResponse(members.login, 'no-store')
+
+  if (path === '/verify') {
+    const email = await claimMemberLogin(env, members.landId, url.searchParams.get('token') ?? '')
+    if (!email) return Response.redirect(`${url.origin}${MEMBERS_PATH}?expired=1`, 303)
+    const cookie = await signMember(handle, email, env.GATE_COOKIE_SECRET)
+    return new Response(null, {
+      status: 303,
+      headers: {
+        'Location': safeNext(url.searchParams.get('next')),
+        'Set-Cookie': `${MEMBER_COOKIE}=${cookie}; Max-Age=${MEMBER_COOKIE_MAX_AGE}; Path=/; HttpOnly; Secure; SameSite=Lax`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  }
+
+  if (path === '/logout') {
+    return new Response(null, {
+      status: 303,
+      headers: {
+        'Location': '/',
+        'Set-Cookie': `${MEMBER_COOKIE}=; Max-Age=0; Path=/; HttpOnly; Secure; SameSite=Lax`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  }
+
+  const itemId = path.slice(1)
+  const page = Object.hasOwn(members.items, itemId) ? members.items[itemId] : undefined
+  if (!page) {
+    return new Response(notFoundPage(url.hostname), {
+      status: 404,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    })
+  }
+
+  if (page.paid) {
+    const cookie = readCookie(request, MEMBER_COOKIE)
+    const email = cookie ? await verifyMember(cookie, handle, env.GATE_COOKIE_SECRET) : null
+    if (!email || !await hasMembership(env, members.landId, page.collectionId, email)) {
+      return Response.redirect(`${url.origin}${MEMBERS_PATH}?next=${encodeURIComponent(url.pathname)}`, 302)
+    }
+  }
+
+  // Paid pages must never land in a shared cache
+  return htmlResponse(page.html, page.paid ? 'private, no-store' : 'no-cache')
+}
+
+function htmlResponse(html: string, cacheControl: string): Response {
+  return new Response(html, {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': cacheControl,
+    },
+  })
+}
+
+// Only members pages on this host — never an open redirect
+function safeNext(next: string | null): string {
+  return next && next.startsWith(`${MEMBERS_PATH}/`) ? next : '/'
+}
+
+// Consumes the sign-in token; the email it was sent to, or null when it's unknown, used or expired
+async function claimMemberLogin(env: Env, landId: string, token: string): Promise<string | null> {
+  if (!token || !env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) return null
+  try {
+    const res = await fetch(`${env.SUPABASE_URL}/rest/v1/rpc/claim_member_login`, {
+      method: 'POST',
+      headers: supabaseHeaders(env),
+      body: JSON.stringify({ p_token: token, p_land_id: landId }),
+    })
+    if (!res.ok) {
+      console.error('Member login claim failed:', res.status, await res.text())
+      return null
+    }
+    return await res.json<string | null>()
+  } catch (err) {
+    console.error('Member login claim failed:', err)
+    return null
+  }
+}
+
+async function hasMembership(env: Env, landId: string, collectionId: string, email: string): Promise<boolean> {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) return false
+  const query = new URLSearchParams({
+    select: 'id',
+    land_id: `eq.${landId}`,
+    collection_id: `eq.${collectionId}`,
+    email: `eq.${email}`,
+    status: `in.(${MEMBER_STATUSES.join(',')})`,
+    limit: '1',
+  })
+  try {
+    const res = await fetch(`${env.SUPABASE_URL}/rest/v1/memberships?${query}`, { headers: supabaseHeaders(env) })
+    if (!res.ok) {
+      console.error('Membership lookup failed:', res.status, await res.text())
+      return false
+    }
+    return (await res.json<unknown[]>()).length > 0
+  } catch (err) {
+    console.error('Membership lookup failed:', err)
+    return false
+  }
+}
+
+// Cookie = `<expiry>.<email>.<signature>`, email base64-encoded. Signed with the same secret
+// as the password gate cookie.
+async function signMember(handle: string, email: string, secret: string): Promise<string> {
+  const expires = Math.floor(Date.now() / 1000) + MEMBER_COOKIE_MAX_AGE
+  const sig = await hmac(secret, `${handle}.member.${email}.${expires}`)
+  return `${expires}.${encodeURIComponent(toBase64(new TextEncoder().encode(email)))}.${encodeURIComponent(toBase64(sig))}`
+}
+
+async function verifyMember(cookie: string, handle: string, secret: string): Promise<string | null> {
+  const [expires, encodedEmail, sig] = cookie.split('.')
+  if (!expires || !encodedEmail || !sig || Number(expires) < Date.now() / 1000) return null
+  try {
+    const email = new TextDecoder().decode(fromBase64(decodeURIComponent(encodedEmail)))
+    const expected = await hmac(secret, `${handle}.member.${email}.${expires}`)
+    return timingSafeEqual(fromBase64(decodeURIComponent(sig)), expected) ? email : null
+  } catch {
+    return null // malformed base64
+  }
+}
+
+// ─── Password gate ───
+
+const GATE_THROTTLED_MESSAGE = 'Too many attempts. Please try again in a few minutes.'
+
+async function gatePage(env: Env, handle: string, notice: 'incorrect' | 'throttled' | null): Promise<Response> {
+  // Themed gate is rendered at publish time; fall back to a plain one if it's missing
+  const html = await env.LANDS_PAGES.get(`${handle}:gate`, { cacheTtl: 0 }) ?? fallbackGatePage()
+  const response = new Response(html, {
+    status: notice === 'throttled' ? 429 : 401,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  })
+  if (!notice) return response
+  return new HTMLRewriter()
+    .on('[data-gate-error]', {
+      element(el) {
+        el.removeAttribute('hidden')
+        if (notice === 'throttled') el.setInnerContent(GATE_THROTTLED_MESSAGE)
+      },
+    })
+    .transform(response)
+}
+
+// Password attempts per visitor and per land, counted in `rate_limits` by hit_rate_limit()
+// like the public functions' limits (publish/guard.ts). Fails open: the PBKDF2 check still
+// stands when the database can't be reached.
+const GATE_LIMITS = [
+  { scope: 'ip', limit: 10, window: '15 minutes' },
+  { scope: 'land', limit: 300, window: '1 hour' },
+] as const
+
+async function isGateThrottled(env: Env, request: Request, handle: string): Promise<boolean> {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) return false
+  // Set by Cloudflare's edge, so visitors can't pick their own
+  const ip = request.headers.get('cf-connecting-ip') ?? 'unknown'
+  const ipHash = toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(ip)))).slice(0, 32)
+  const keys = { ip: `gate:${handle}:ip:${ipHash}`, land: `gate:${handle}` }
+  try {
+    const results = await Promise.all(GATE_LIMITS.map(async (l) => {
+      const res = await fetch(`${env.SUPABASE_URL}/rest/v1/rpc/hit_rate_limit`, {
+        method: 'POST',
+        headers: supabaseHeaders(env),
+        body: JSON.stringify({ p_key: keys[l.scope], p_limit: l.limit, p_window: l.window }),
+      })
+      if (!res.ok) {
+        console.error('Gate rate limit failed:', res.status, await res.text())
+        return true
+      }
+      return await res.json<boolean>()
+    }))
+    return results.some((allowed) => !allowed)
+  } catch (err) {
+    console.error('Gate rate limit failed:', err)
+    return false
+  }
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(s: string): Uint8Array {
+  return Uint8Array.from(atob(s), (c) => c.charCodeAt(0))
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i]
+  return diff === 0
+}
+
+// Same PBKDF2-SHA256 parameters as supabase/functions/publish/password.ts
+async function verifyPassword(password: string, gate: PasswordGate): Promise<boolean> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits'])
+  const expected = fromBase64(gate.hash)
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(gate.salt), iterations: gate.iterations },
+    key,
+    expected.length * 8,
+  )
+  return timingSafeEqual(new Uint8Array(bits), expected)
+}
+
+async function hmac(secret: string, data: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data)))
+}
+
+// Cookie = `<expiry>.<signature>`. The signature covers the handle and the current password
+// hash, so changing the password revokes every issued cookie.
+async function signAccess(handle: string, gate: PasswordGate, secret: string): Promise<string> {
+  const expires = Math.floor(Date.now() / 1000) + GATE_COOKIE_MAX_AGE
+  const sig = await hmac(secret, `${handle}.${gate.hash}.${expires}`)
+  return `${expires}.${encodeURIComponent(toBase64(sig))}`
+}
+
+async function verifyAccess(cookie: string, handle: string, gate: PasswordGate, secret: string): Promise<boolean> {
+  const [expires, sig] = cookie.split('.')
+  if (!expires || !sig || Number(expires) < Date.now() / 1000) return false
+  const expected = await hmac(secret, `${handle}.${gate.hash}.${expires}`)
+  try {
+    return timingSafeEqual(fromBase64(decodeURIComponent(sig)), expected)
+  } catch {
+    return false // malformed base64
+  }
+}
+
+// `<issued at ms>.<base64 HMAC>` — verified by verifyFormToken in publish/guard.ts
+async function signFormToken(secret: string): Promise<string> {
+  const issuedAt = Date.now()
+  const sig = await hmac(secret, `form.${issuedAt}`)
+  return `${issuedAt}.${toBase64(sig)}`
+}
+
+function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('Cookie') ?? ''
+  for (const part of header.split(';')) {
+    const [k, ...v] = part.trim().split('=')
+    if (k === name) return v.join('=')
+  }
+  return null
+}
+
+function fallbackGatePage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>Protected — Lands</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: ui-sans-serif, system-ui, sans-serif; display: flex; align-items: center; justify-content: center; height: 100vh; background: #fafafa; }
+    form { display: flex; flex-direction: column; gap: 0.5rem; width: 16rem; text-align: center; }
+    h1 { font-size: 0.875rem; font-weight: 500; color: #374151; }
+    p { font-size: 0.75rem; color: #dc2626; }
+    input, button { font: inherit; font-size: 0.75rem; padding: 0.5rem 0.75rem; border-radius: 0.5rem; border: 1px solid #e5e7eb; }
+    button { background: #111827; color: #fff; border: 0; cursor: pointer; }
+    [hidden] { display: none; }
+  </style>
+</head>
+<body>
+  <form method="POST">
+    <h1>This page is password protected</h1>
+    <input type="password" name="password" placeholder="Password" required autofocus>
+    <p data-gate-error hidden>Incorrect password.</p>
+    <button type="submit">Enter</button>
+  </form>
+</body>
+</html>`
+}
+
+function notFoundPage(host?: string): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -80,7 +593,7 @@ function notFoundPage(handle?: string): string {
 </head>
 <body>
   <div class="wrap">
-    <h1>${handle ? `${handle}.lands.app` : 'Page not found'}</h1>
+    <h1>${host ?? 'Page not found'}</h1>
     <p>This page hasn't been published yet.</p>
     <a href="https://lands.app">← Back to Lands</a>
   </div>